@@ -11,8 +11,7 @@ import { initializeGrid } from './services/geography';
 import { exportAllData } from './services/exporter';
 import { PlanetParams, AtmosphereParams, SimulationResult, SimulationConfig, PhysicsParams } from './types';
 
-const ANNUAL_ONLY_MODES = new Set(['elevation', 'distCoast', 'itcz_heatmap', 'ocean_collision', 'climate', 'step4']);
-const NO_ANNUAL_MODES = new Set(['oceanCurrent']);
+const ANNUAL_ONLY_MODES = new Set(['elevation', 'distCoast', 'itcz_heatmap', 'ocean_collision', 'climate']);
 
 const App: React.FC = () => {
   const [planet, setPlanet] = useState<PlanetParams>(EARTH_PARAMS);
@@ -27,8 +26,8 @@ const App: React.FC = () => {
   const [showOceanDebug, setShowOceanDebug] = useState(false);
   const [showWindDebug, setShowWindDebug] = useState(false);
   
-  // 'annual' or 0 (Jan) or 6 (July)
-  const [displayMonth, setDisplayMonth] = useState<'annual' | 0 | 6>('annual');
+  // 'annual' or a month index (0 = Jan)
+  const [displayMonth, setDisplayMonth] = useState<number | 'annual'>('annual');
   
   const [viewMode, setViewMode] = useState<string>('elevation');
   const [mapSize, setMapSize] = useState({ width: 800, height: 400 });
@@ -36,7 +35,6 @@ const App: React.FC = () => {
   const [processingStep, setProcessingStep] = useState<string | null>(null);
 
   const isAnnualOnlyMode = ANNUAL_ONLY_MODES.has(viewMode);
-  const isNoAnnualMode = NO_ANNUAL_MODES.has(viewMode);
 
   // Unit J: Effective Physics Calculation
   // Derived from the wind belt analysis if available, otherwise fallback to raw physics params.
@@ -78,10 +76,6 @@ const App: React.FC = () => {
   useEffect(() => {
     if (ANNUAL_ONLY_MODES.has(viewMode)) {
         setDisplayMonth('annual');
-        return;
-    }
-    if (NO_ANNUAL_MODES.has(viewMode)) {
-        setDisplayMonth(0);
     }
   }, [viewMode]);
 
@@ -132,6 +126,7 @@ const App: React.FC = () => {
   const PIPELINE_STEPS = [
       { id: 'elevation', label: '地形データ', desc: '標高・起伏', subSteps: [] },
       { id: 'distCoast', label: 'Step 0', desc: '海岸距離', subSteps: [] },
+      { id: 'insolation', label: 'Step 0.5', desc: '日射量', subSteps: [] },
       { id: 'step1', label: 'Step 1', desc: 'ITCZ', subSteps: [
           { id: 'itcz_heatmap', label: '1.1 熱影響' },
           { id: 'itcz_result', label: '1.6 算出緯度' }
@@ -142,9 +137,20 @@ const App: React.FC = () => {
       ]},
       { id: 'step3', label: 'Step 3', desc: '海流解析', subSteps: [
           { id: 'ocean_collision', label: '3.0 衝突判定'},
-          { id: 'oceanCurrent', label: '3.1 循環流' }
+          { id: 'oceanCurrent', label: '3.1 循環流' },
+          { id: 'upwelling', label: '3.3 湧昇' }
+      ]},
+      { id: 'step4', label: 'Step 4', desc: '気流詳細', subSteps: [
+          { id: 'step4', label: '4.1 気流・上昇流' },
+          { id: 'orographic', label: '4.2 地形性降水' }
+      ]},
+      { id: 'step5', label: 'Step 5', desc: '気温', subSteps: [
+          { id: 'tempZonal', label: '5.1 帯状平均' },
+          { id: 'temp', label: '5.2 地表気温' },
+          { id: 'seaIce', label: '5.4 海氷' }
       ]},
-      { id: 'step4', label: 'Step 4', desc: '気流詳細', subSteps: [] },
+      { id: 'precip', label: 'Step 6', desc: '降水', subSteps: [] },
+      { id: 'climate', label: 'Step 7', desc: '気候区分', subSteps: [] },
   ];
 
   return (
@@ -162,6 +168,8 @@ const App: React.FC = () => {
              planet={planet}
              cellCount={result.cellCount}
              windCellBoundaries={result.wind?.cellBoundariesDeg}
+             windMonthlyCellBoundaries={result.wind?.monthlyCellBoundariesDeg}
+             windCellLayouts={result.wind?.monthlyCellLayouts}
              hadleyWidth={result.hadleyWidth}
              onClose={() => setShowOceanDebug(false)}
           />
@@ -188,31 +196,24 @@ const App: React.FC = () => {
                       ExoClim <span className="text-xs font-normal text-gray-400 ml-1">惑星気候シミュレーター</span>
                   </h1>
 
-                  {/* Season Toggle */}
+                  {/* Month Selector */}
                   <div className="flex items-center bg-gray-800 p-0.5 rounded-lg border border-gray-700 ml-4 shadow-inner">
-                      <button 
-                        onClick={() => setDisplayMonth(0)}
-                        disabled={isAnnualOnlyMode}
-                        className={`px-3 py-1 text-[10px] font-bold rounded transition-colors flex flex-col items-center leading-none ${displayMonth === 0 ? 'bg-blue-600 text-white shadow' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'} ${isAnnualOnlyMode ? 'opacity-40 cursor-not-allowed' : ''}`}
-                        title="1月: 北半球 冬 / 南半球 夏"
-                      >
-                        <span>1月</span>
-                        <span className="text-[8px] opacity-70 font-normal">Jan</span>
-                      </button>
-                      <button 
-                        onClick={() => setDisplayMonth(6)}
-                        disabled={isAnnualOnlyMode}
-                        className={`px-3 py-1 text-[10px] font-bold rounded transition-colors flex flex-col items-center leading-none ${displayMonth === 6 ? 'bg-red-600 text-white shadow' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'} ${isAnnualOnlyMode ? 'opacity-40 cursor-not-allowed' : ''}`}
-                        title="7月: 北半球 夏 / 南半球 冬"
-                      >
-                        <span>7月</span>
-                        <span className="text-[8px] opacity-70 font-normal">Jul</span>
-                      </button>
+                      {Array.from({ length: 12 }, (_, m) => (
+                          <button
+                            key={m}
+                            onClick={() => setDisplayMonth(m)}
+                            disabled={isAnnualOnlyMode}
+                            className={`px-1.5 py-1 text-[10px] font-bold rounded transition-colors flex flex-col items-center leading-none ${displayMonth === m ? 'bg-blue-600 text-white shadow' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'} ${isAnnualOnlyMode ? 'opacity-40 cursor-not-allowed' : ''}`}
+                            title={`${m + 1}月`}
+                          >
+                            <span>{m + 1}</span>
+                            <span className="text-[8px] opacity-70 font-normal">月</span>
+                          </button>
+                      ))}
                       <div className="w-px h-4 bg-gray-700 mx-1"></div>
                       <button 
                         onClick={() => setDisplayMonth('annual')}
-                        disabled={isNoAnnualMode}
-                        className={`px-3 py-1 text-[10px] font-bold rounded transition-colors flex flex-col items-center leading-none ${displayMonth === 'annual' ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'} ${isNoAnnualMode ? 'opacity-40 cursor-not-allowed' : ''}`}
+                        className={`px-3 py-1 text-[10px] font-bold rounded transition-colors flex flex-col items-center leading-none ${displayMonth === 'annual' ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'}`}
                       >
                         <span>年平均</span>
                         <span className="text-[8px] opacity-70 font-normal">Avg</span>
@@ -224,15 +225,13 @@ const App: React.FC = () => {
                     {PIPELINE_STEPS.map((step) => {
                         const isProcessing = processingStep === step.id;
                         const isSelected = viewMode === step.id || step.subSteps?.some(s => s.id === viewMode);
-                        const isStep1 = step.id === 'step1';
-                        const isStep2 = step.id === 'step2';
-                        const isStep3 = step.id === 'step3';
+                        const hasSubSteps = step.subSteps.length > 0;
 
                         return (
                             <div key={step.id} className="flex gap-0.5">
                                 <button
                                     onClick={() => {
-                                        if (step.subSteps && step.subSteps.length > 0) {
+                                        if (hasSubSteps) {
                                             setViewMode(step.subSteps[0].id);
                                         } else {
                                             setViewMode(step.id);
@@ -256,7 +255,7 @@ const App: React.FC = () => {
                                     </span>
                                 </button>
                                 
-                                {(isStep1 || isStep2 || isStep3) && (
+                                {hasSubSteps && (
                                     <div className="flex flex-col gap-0.5 ml-0.5">
                                         {step.subSteps?.map(sub => (
                                             <button
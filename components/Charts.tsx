@@ -1,13 +1,20 @@
 
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { SimulationResult } from '../types';
+import { SimulationResult, ClimateRegime } from '../types';
 
 interface Props {
   data: SimulationResult | null;
-  displayMonth: 'annual' | 0 | 6;
+  displayMonth: number | 'annual';
 }
 
+const REGIME_LABELS: Record<ClimateRegime, string> = {
+  temperate: '温暖',
+  partially_glaciated: '部分氷河期',
+  snowball: '全球凍結',
+  hothouse: '無氷温室'
+};
+
 // Helper component to safely measure dimensions before rendering Recharts
 const SizeAwareContainer: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -40,10 +47,9 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
   const thermoImplemented = data?.implementationStatus.thermoModel === 'implemented';
   const hydroImplemented = data?.implementationStatus.hydroModel === 'implemented';
   const climateImplemented = data?.implementationStatus.climateClassification === 'implemented';
-  const hasThermoHydro = thermoImplemented && hydroImplemented;
 
   const chartData = useMemo(() => {
-    if (!data || !hasThermoHydro) return [];
+    if (!data || !thermoImplemented) return [];
 
     // Group by latitude for Zonal Means
     const latGroups = new Map<number, { temp: number[], precip: number[] }>();
@@ -78,11 +84,11 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
 
     // Sort North to South (90 to -90)
     return result.sort((a, b) => a.lat - b.lat); 
-  }, [data, displayMonth, hasThermoHydro]);
+  }, [data, displayMonth, thermoImplemented]);
 
   if (!data) return <div className="h-full flex items-center justify-center text-gray-500 text-xs text-center p-4">データの読込を<br/>待機しています</div>;
 
-  const displayLabel = displayMonth === 'annual' ? "年平均/総量" : (displayMonth === 0 ? "1月" : "7月");
+  const displayLabel = displayMonth === 'annual' ? "年平均/総量" : `${displayMonth + 1}月`;
 
   return (
     <div className="h-full w-full flex flex-col bg-gray-900 border-l border-gray-800" id="charts-main-container">
@@ -101,15 +107,27 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
                 {data.cellCount} 層
               </span>
            </div>
+           <div className="bg-gray-800 p-1 rounded text-center border-l-2 border-cyan-200">
+              <span className="block text-gray-500 text-[9px]">氷雪被覆率</span>
+              <span className="text-white font-mono">
+                {data.ice ? `${(data.ice.iceFraction * 100).toFixed(1)}%` : '未実装'}
+              </span>
+           </div>
+           <div className="bg-gray-800 p-1 rounded text-center border-l-2 border-cyan-200">
+              <span className="block text-gray-500 text-[9px]">気候レジーム</span>
+              <span className="text-white font-mono text-xs">
+                {data.ice ? REGIME_LABELS[data.ice.regime] : '未実装'}
+              </span>
+           </div>
         </div>
       </div>
       
       <div className="flex-1 min-h-0 relative">
-        {!hasThermoHydro ? (
+        {!thermoImplemented ? (
           <div className="h-full flex items-center justify-center p-4">
             <div className="w-full border border-amber-700/50 bg-amber-950/30 rounded p-3 text-xs text-amber-100 leading-relaxed">
-              <div className="font-bold text-amber-300 mb-1">Thermo/Hydro 未実装</div>
-              <div>温度と降水の計算はまだ実装されていないため、チャートは表示していません。</div>
+              <div className="font-bold text-amber-300 mb-1">Thermo 未実装</div>
+              <div>温度の計算はまだ実装されていないため、チャートは表示していません。</div>
               {!climateImplemented && (
                 <div className="mt-2 text-amber-200">気候分類（Koppen）も未実装です。</div>
               )}
@@ -134,6 +152,7 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
                     domain={['auto', 'auto']}
                     label={{ value: "気温 (°C)", position: 'insideTop', fill: '#F87171', fontSize: 9, offset: -5 }}
                 />
+                {hydroImplemented && (
                 <XAxis 
                     xAxisId="precip"
                     type="number" 
@@ -144,6 +163,7 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
                     domain={[0, 'auto']}
                     label={{ value: "降水 (mm)", position: 'insideBottom', fill: '#60A5FA', fontSize: 9, offset: -5 }}
                 />
+                )}
                 <YAxis 
                   dataKey="lat" 
                   type="number" 
@@ -172,6 +192,7 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
                   name="平均気温" 
                   isAnimationActive={false} 
                 />
+                {hydroImplemented && (
                 <Line 
                   xAxisId="precip"
                   dataKey="precip" 
@@ -182,6 +203,7 @@ const Charts: React.FC<Props> = ({ data, displayMonth }) => {
                   name="平均降水" 
                   isAnimationActive={false} 
                 />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </SizeAwareContainer>
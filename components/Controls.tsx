@@ -1,10 +1,37 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { PlanetParams, AtmosphereParams, SimulationConfig, CustomMapData, PhysicsParams } from '../types';
+import { PlanetParams, AtmosphereParams, SimulationConfig, CustomMapData, PhysicsParams, StellarComponent } from '../types';
 import { EARTH_PARAMS, EARTH_ATMOSPHERE, DEFAULT_PHYSICS_PARAMS, RESOLUTION_PRESETS } from '../constants';
 import Slider from './ui/Slider';
 import QuadrantDial from './ui/QuadrantDial';
 import CircularDial from './ui/CircularDial';
+import { isTidallyLocked } from '../services/physics/tidalLock';
+
+const WIND_MODEL_OPTIONS: { value: PhysicsParams['windModel'], label: string, description: string }[] = [
+  { value: 'belt', label: '風帯モデル', description: '緯度帯ごとの経験的な風速プロファイル' },
+  { value: 'geostrophic', label: '地衡風モデル', description: '気圧場から地衡風 + 摩擦収束 (赤道付近は風帯と合成)' }
+];
+
+const CIRCULATION_SCALING_OPTIONS: { value: PhysicsParams['circulationScaling'], label: string, description: string }[] = [
+  { value: 'empirical', label: '経験式', description: 'セル数 ∝ 半径 × √自転速度 (地球 = 3)' },
+  { value: 'heldHou', label: 'Held–Hou / Rhines', description: '熱ロスビー数からハドレー幅、Rhines 長からジェット数' }
+];
+
+const TIDAL_LOCK_OPTIONS: { value: PlanetParams['tidalLock'], label: string }[] = [
+  { value: 'auto', label: '自動判定' },
+  { value: 'locked', label: '潮汐固定' },
+  { value: 'free', label: '自由自転' }
+];
+
+// New companions start from a typical red-dwarf partner: a close pair (P-type) or a distant star (S-type)
+const COMPANION_PRESETS: Record<StellarComponent['configuration'], Omit<StellarComponent, 'period'>> = {
+  P: { luminosity: 0.05, temperature: 3400, configuration: 'P', separation: 0.1, phase: 0 },
+  S: { luminosity: 0.01, temperature: 3100, configuration: 'S', separation: 20, phase: 0 }
+};
+
+// Kepler's third law (hours), masses from the main-sequence L ∝ M^4 relation
+const keplerPeriodHours = (separationAU: number, primaryLuminosity: number, companionLuminosity: number) =>
+  8766 * Math.sqrt(Math.pow(separationAU, 3) / (Math.pow(primaryLuminosity, 0.25) + Math.pow(companionLuminosity, 0.25)));
 
 interface Props {
   planet: PlanetParams;
@@ -27,11 +54,27 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
   const [activeTab, setActiveTab] = useState<'system' | 'orbit' | 'planet' | 'atmos' | 'physics'>('system');
   const [errors, setErrors] = useState<string[]>([]);
 
-  const updatePlanet = (key: keyof PlanetParams, val: number | boolean) => setPlanet(prev => ({ ...prev, [key]: val }));
+  const updatePlanet = (key: keyof PlanetParams, val: number | boolean | string) => setPlanet(prev => ({ ...prev, [key]: val }));
   const updateAtm = (key: keyof AtmosphereParams, val: number) => setAtm(prev => ({ ...prev, [key]: val }));
   const updatePhys = (key: keyof PhysicsParams, val: number) => setPhys(prev => ({ ...prev, [key]: val }));
   const updateConfig = (key: keyof SimulationConfig, val: any) => setConfig(prev => ({ ...prev, [key]: val }));
 
+  // Separation and luminosity edits keep the companion on a Keplerian period
+  const updateCompanion = (index: number, key: keyof StellarComponent, val: number | string) => setPlanet(prev => ({
+      ...prev,
+      companions: prev.companions.map((comp, i) => {
+          if (i !== index) return comp;
+          const next = { ...comp, [key]: val };
+          if (key === 'separation' || key === 'luminosity') next.period = keplerPeriodHours(next.separation, prev.solarLuminosity, next.luminosity);
+          return next;
+      })
+  }));
+  const addCompanion = (configuration: StellarComponent['configuration']) => setPlanet(prev => {
+      const preset = COMPANION_PRESETS[configuration];
+      return { ...prev, companions: [...prev.companions, { ...preset, period: keplerPeriodHours(preset.separation, prev.solarLuminosity, preset.luminosity) }] };
+  });
+  const removeCompanion = (index: number) => setPlanet(prev => ({ ...prev, companions: prev.companions.filter((_, i) => i !== index) }));
+
   // Dynamic max buffer based on planet radius (approx 10% of radius or fixed large cap)
   const maxCollisionBuffer = Math.min(2000, Math.floor(planet.radius * 0.2));
 
@@ -42,6 +85,10 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
       const errs: string[] = [];
       if (planet.gravity <= 0) errs.push('重力は正の値である必要があります');
       if (planet.rotationPeriod <= 0) errs.push('自転周期は正の値である必要があります');
+      planet.companions.forEach((comp, i) => {
+          if (comp.configuration === 'P' && comp.separation * 2 > planet.semiMajorAxis) errs.push(`伴星${i + 1}: P型の連星間距離は惑星軌道の半分未満にしてください`);
+          if (comp.configuration === 'S' && comp.separation < planet.semiMajorAxis * 3) errs.push(`伴星${i + 1}: S型の伴星は惑星軌道の3倍以上離してください`);
+      });
       setErrors(errs);
   }, [planet, atm]);
 
@@ -241,7 +288,8 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                         onChange={(v:number) => updatePlanet('radius', v)} defaultValue={EARTH_PARAMS.radius} />
                     
                     <Slider label="自転周期" value={planet.rotationPeriod} min={1} max={100} step={1} unit="時間" color="green"
-                        onChange={(v:number) => updatePlanet('rotationPeriod', v)} defaultValue={EARTH_PARAMS.rotationPeriod} />
+                        onChange={(v:number) => updatePlanet('rotationPeriod', v)} defaultValue={EARTH_PARAMS.rotationPeriod}
+                        disabled={planet.tidalLock === 'locked'} />
                     
                     <Slider label="表面重力" value={planet.gravity} min={5} max={25} step={0.1} unit="m/s²" color="green"
                         onChange={(v:number) => updatePlanet('gravity', v)} defaultValue={EARTH_PARAMS.gravity} />
@@ -260,6 +308,28 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                             <span className="text-lg">{planet.isRetrograde ? '⟲' : '⟳'}</span>
                         </div>
                     </button>
+
+                    <div className="flex flex-col justify-center p-2 rounded border border-green-600/30 bg-gray-800/40">
+                        <span className="text-[10px] font-bold uppercase mb-1 text-green-200">潮汐固定 (同期自転)</span>
+                        <div className="flex gap-1">
+                            {TIDAL_LOCK_OPTIONS.map(o => (
+                                <button
+                                    key={o.value}
+                                    onClick={() => updatePlanet('tidalLock', o.value)}
+                                    className={`flex-1 py-1 text-[10px] border rounded transition-colors ${
+                                        planet.tidalLock === o.value
+                                        ? 'bg-green-900/40 border-green-500 text-green-200 font-bold'
+                                        : 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'
+                                    }`}
+                                >
+                                    {o.label}
+                                </button>
+                            ))}
+                        </div>
+                        <span className="text-[9px] text-gray-500 mt-1">
+                            {isTidallyLocked(planet) ? '自転周期 = 公転周期 / 恒星直下点に対流中心' : '通常の自転 (帯状循環)'}
+                        </span>
+                    </div>
                  </div>
              </div>
         )}
@@ -269,13 +339,13 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                 <h3 className="text-xs font-bold text-orange-400 uppercase border-b border-orange-900/50 pb-1 mb-3">軌道設定</h3>
                 
                 <div className="grid grid-cols-2 gap-3 mb-4">
-                    <Slider label="主星の光度" value={planet.solarLuminosity} min={0.5} max={2.0} step={0.01} unit="x 太陽" color="orange"
+                    <Slider label="主星の光度" value={planet.solarLuminosity} min={0.001} max={2.0} step={0.001} unit="x 太陽" color="orange"
                         onChange={(v:number) => updatePlanet('solarLuminosity', v)} defaultValue={EARTH_PARAMS.solarLuminosity} />
                     
-                    <Slider label="軌道長半径" value={planet.semiMajorAxis} min={0.5} max={2.0} step={0.01} unit="AU" color="orange"
+                    <Slider label="軌道長半径" value={planet.semiMajorAxis} min={0.01} max={2.0} step={0.001} unit="AU" color="orange"
                         onChange={(v:number) => updatePlanet('semiMajorAxis', v)} defaultValue={EARTH_PARAMS.semiMajorAxis} />
                     
-                    <Slider label="公転周期" value={planet.orbitalPeriod} min={1000} max={20000} step={100} unit="時間" color="orange"
+                    <Slider label="公転周期" value={planet.orbitalPeriod} min={24} max={20000} step={1} unit="時間" color="orange"
                         onChange={(v:number) => updatePlanet('orbitalPeriod', v)} defaultValue={EARTH_PARAMS.orbitalPeriod} />
                     
                     <Slider label="離心率" value={planet.eccentricity} min={0} max={0.2} step={0.001} unit="" color="orange"
@@ -299,13 +369,51 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                             label="地軸傾斜角" 
                             value={planet.obliquity} 
                             min={0} 
-                            max={90} 
+                            max={180} 
                             unit="°" 
                             onChange={(v:number) => updatePlanet('obliquity', v)} 
                             defaultValue={EARTH_PARAMS.obliquity} 
                         />
                     </div>
                 </div>
+
+                <h3 className="text-xs font-bold text-orange-400 uppercase border-b border-orange-900/50 pb-1 mt-4 mb-3">恒星系 (多重星)</h3>
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                    <Slider label="主星の有効温度" value={planet.stellarTemperature} min={2300} max={10000} step={10} unit="K" color="orange"
+                        onChange={(v:number) => updatePlanet('stellarTemperature', v)} defaultValue={EARTH_PARAMS.stellarTemperature} />
+                    <div className="flex gap-1">
+                        <button onClick={() => addCompanion('P')}
+                            className="flex-1 py-1.5 text-[10px] border rounded transition-colors bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700">
+                            + 近接連星 (P型)
+                        </button>
+                        <button onClick={() => addCompanion('S')}
+                            className="flex-1 py-1.5 text-[10px] border rounded transition-colors bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700">
+                            + 遠方伴星 (S型)
+                        </button>
+                    </div>
+                </div>
+                {planet.companions.map((comp, i) => (
+                    <div key={i} className="border border-orange-900/40 rounded p-2 mb-2 bg-gray-900/40">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-[10px] font-bold text-orange-200">
+                                伴星 {i + 1}: {comp.configuration === 'P' ? 'P型 (惑星が連星の外側を公転)' : 'S型 (主星のみを公転)'}
+                            </span>
+                            <button onClick={() => removeCompanion(i)} className="text-[10px] text-gray-400 hover:text-red-400">削除</button>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                            <Slider label="光度" value={comp.luminosity} min={0.0001} max={2.0} step={0.0001} unit="x 太陽" color="orange"
+                                onChange={(v:number) => updateCompanion(i, 'luminosity', v)} defaultValue={COMPANION_PRESETS[comp.configuration].luminosity} />
+                            <Slider label="有効温度" value={comp.temperature} min={2300} max={10000} step={10} unit="K" color="orange"
+                                onChange={(v:number) => updateCompanion(i, 'temperature', v)} defaultValue={COMPANION_PRESETS[comp.configuration].temperature} />
+                            <Slider label="主星との距離" value={comp.separation} min={0.01} max={100} step={0.01} unit="AU" color="orange"
+                                onChange={(v:number) => updateCompanion(i, 'separation', v)} defaultValue={COMPANION_PRESETS[comp.configuration].separation} />
+                            <Slider label="伴星の公転周期" value={comp.period} min={1} max={1000000} step={1} unit="時間" color="orange"
+                                onChange={(v:number) => updateCompanion(i, 'period', v)} />
+                            <Slider label="初期位相" value={comp.phase} min={0} max={360} step={1} unit="°" color="orange"
+                                onChange={(v:number) => updateCompanion(i, 'phase', v)} defaultValue={0} />
+                        </div>
+                    </div>
+                ))}
             </div>
         )}
 
@@ -324,6 +432,9 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                     
                     <Slider label="海洋熱容量" value={atm.heatCapacityOcean} min={0.1} max={5.0} step={0.1} unit="倍" color="purple"
                         onChange={(v:number) => updateAtm('heatCapacityOcean', v)} defaultValue={EARTH_ATMOSPHERE.heatCapacityOcean} />
+
+                    <Slider label="気温減率" value={atm.lapseRate} min={0} max={12} step={0.1} unit="K/km" color="purple"
+                        onChange={(v:number) => updateAtm('lapseRate', v)} defaultValue={EARTH_ATMOSPHERE.lapseRate} />
                  </div>
             </div>
         )}
@@ -335,6 +446,23 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                      <span className="text-[9px] text-gray-500 uppercase tracking-wider">Step 1: ITCZ・大気循環</span>
                  </div>
                  
+                 <div className="grid grid-cols-2 gap-2 mb-3">
+                    {CIRCULATION_SCALING_OPTIONS.map(o => (
+                        <button
+                            key={o.value}
+                            onClick={() => setPhys(prev => ({ ...prev, circulationScaling: o.value }))}
+                            className={`flex flex-col items-start p-2 text-left border rounded transition-colors ${
+                                phys.circulationScaling === o.value
+                                ? 'bg-red-900/30 border-red-500 text-red-200'
+                                : 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'
+                            }`}
+                        >
+                            <span className="text-[11px] font-bold">{o.label}</span>
+                            <span className="text-[9px] text-gray-500">{o.description}</span>
+                        </button>
+                    ))}
+                 </div>
+
                  <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
                     <div className="bg-gray-900/40 p-2 rounded border border-gray-800 hover:border-red-900/30 transition-colors">
                         <div className="text-[9px] font-bold text-gray-500 mb-2 uppercase">1.2 熱影響マップ係数</div>
@@ -359,6 +487,38 @@ const Controls: React.FC<Props> = ({ planet, setPlanet, atm, setAtm, config, set
                     </div>
                  </div>
 
+                 <div className="flex justify-between items-center border-b border-blue-900/50 pb-1 mb-3 mt-4">
+                     <h3 className="text-xs font-bold text-blue-400 uppercase">Step 2: 風モデル</h3>
+                     <span className="text-[9px] text-gray-500 uppercase tracking-wider">風帯 / 地衡風</span>
+                 </div>
+
+                 <div className="grid grid-cols-2 gap-2 mb-4">
+                    {WIND_MODEL_OPTIONS.map(o => (
+                        <button
+                            key={o.value}
+                            onClick={() => setPhys(prev => ({ ...prev, windModel: o.value }))}
+                            className={`flex flex-col items-start p-2 text-left border rounded transition-colors ${
+                                phys.windModel === o.value
+                                ? 'bg-blue-900/30 border-blue-500 text-blue-200'
+                                : 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'
+                            }`}
+                        >
+                            <span className="text-[11px] font-bold">{o.label}</span>
+                            <span className="text-[9px] text-gray-500">{o.description}</span>
+                        </button>
+                    ))}
+                 </div>
+
+                 <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+                    <div className="bg-gray-900/40 p-2 rounded border border-gray-800 hover:border-blue-900/30 transition-colors">
+                        <div className="text-[9px] font-bold text-gray-500 mb-2 uppercase">偏西風の定在波</div>
+                        <div className="space-y-1">
+                            <Slider label="定在波の強さ" value={phys.windStationaryWaveGain} min={0} max={2} step={0.1} unit="倍" color="blue"
+                                onChange={(v:number) => updatePhys('windStationaryWaveGain', v)} defaultValue={DEFAULT_PHYSICS_PARAMS.windStationaryWaveGain} />
+                        </div>
+                    </div>
+                 </div>
+
                  <div className="flex justify-between items-center border-b border-cyan-900/50 pb-1 mb-3 mt-4">
                      <h3 className="text-xs font-bold text-cyan-400 uppercase">Step 3: 海流シミュレーション</h3>
                      <span className="text-[9px] text-gray-500 uppercase tracking-wider">Pass 3.0 - 3.3</span>
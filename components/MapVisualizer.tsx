@@ -1,16 +1,21 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { SimulationResult, PhysicsParams } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationResult, PhysicsParams, ClimateScheme } from '../types';
+import { CLASSIFICATION_SCHEMES } from '../services/classification';
 import { drawPixels } from './visualizer/PixelRenderer';
 import { drawOverlays } from './visualizer/OverlayRenderer';
 import Legend from './visualizer/Legend';
+import { insolationDomainMax } from './visualizer/constants';
+import { fromTidallyLockedCoords, SUBSTELLAR_CONVECTION_RADIUS_DEG } from '../services/physics/tidalLock';
+
+type CoordFrame = 'geographic' | 'substellar';
 
 interface Props {
   data: SimulationResult | null;
-  mode: 'temp' | 'precip' | 'distCoast' | 'climate' | 'insolation' | 'wind' | 'wind_belts' | 'tempZonal' | 'oceanCurrent' | 'elevation' | 'hadley' | 'itcz_heatmap' | 'itcz_result' | 'ocean_collision' | 'step4';
+  mode: 'temp' | 'precip' | 'distCoast' | 'climate' | 'insolation' | 'wind' | 'wind_belts' | 'tempZonal' | 'oceanCurrent' | 'elevation' | 'hadley' | 'itcz_heatmap' | 'itcz_result' | 'ocean_collision' | 'step4' | 'orographic' | 'upwelling' | 'seaIce';
   width: number;
   height: number;
-  displayMonth: 'annual' | 0 | 6; 
+  displayMonth: number | 'annual';
   physicsParams?: PhysicsParams; 
   zoom?: number;
   onZoomChange?: (newZoom: number) => void;
@@ -26,6 +31,11 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
   const lastX = useRef(0);
   const lastY = useRef(0);
   const [isGradient, setIsGradient] = useState(false);
+  const [climateScheme, setClimateScheme] = useState<ClimateScheme>('koppen');
+  const [coordFrame, setCoordFrame] = useState<CoordFrame>('geographic');
+  // Tidally locked coordinates (substellar point at the top edge) are only offered for locked planets
+  const isSubstellarView = coordFrame === 'substellar' && !!data?.tidalLock?.locked;
+  const insolationMax = useMemo(() => data ? insolationDomainMax(data.grid) : undefined, [data]);
   
   // Helper to extract value based on displayMonth
   const getVal = (arr: number[]) => {
@@ -36,21 +46,24 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
   };
 
   const modeLabels: Record<string, string> = {
-      'temp': '気温 (実測)',
-      'precip': '降水量',
+      'temp': 'Step 5.2: 地表気温',
+      'precip': 'Step 6: 降水量',
       'distCoast': 'Step 0: 海岸距離',
-      'climate': 'ケッペン気候区分',
-      'insolation': '日射量',
+      'climate': 'Step 7: 気候区分',
+      'insolation': 'Step 0.5: 日射量 (大気上端)',
       'wind': 'Step 2.1: 抽象帯状風',
       'wind_belts': 'Step 2.2: 風帯デバッグ表示',
-      'tempZonal': '帯状平均温度',
+      'tempZonal': 'Step 5.1: 帯状平均気温',
       'oceanCurrent': 'Step 3.1: 海流・循環流',
+      'upwelling': 'Step 3.3: 沿岸湧昇・冷水舌',
+      'seaIce': 'Step 5.4: 海氷 (密接度・厚さ)',
       'elevation': '地形・標高データ',
       'hadley': '大気循環・ITCZ',
       'itcz_heatmap': 'Step 1.1: 熱影響マップ',
       'itcz_result': 'Step 1.6: ITCZ 算出緯度',
       'ocean_collision': 'Step 3.0: 海流衝突判定',
-      'step4': 'Step 4: 気流詳細 (未実装)'
+      'step4': 'Step 4: 気流詳細',
+      'orographic': 'Step 4.2: 地形性降水'
   };
 
   // --- Rendering to Buffer ---
@@ -75,9 +88,28 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
     const ctx = buffer.getContext('2d');
     if (!ctx) return;
 
-    drawPixels(ctx, data, mode, displayMonth, gridCols, gridRows, isGradient);
+    drawPixels(ctx, data, mode, displayMonth, gridCols, gridRows, isGradient, climateScheme);
+
+    // Re-project into tidally locked coordinates: each output pixel samples its geographic cell
+    if (isSubstellarView) {
+        const src = ctx.getImageData(0, 0, gridCols, gridRows);
+        const dst = ctx.createImageData(gridCols, gridRows);
+        for (let r = 0; r < gridRows; r++) {
+            const tlLat = 90 - (r / Math.max(1, gridRows - 1)) * 180;
+            for (let c = 0; c < gridCols; c++) {
+                const tlLon = -180 + (c / gridCols) * 360;
+                const { lat, lon } = fromTidallyLockedCoords(tlLat, tlLon);
+                const sr = Math.max(0, Math.min(gridRows - 1, Math.round(((90 - lat) / 180) * (gridRows - 1))));
+                const sc = Math.max(0, Math.min(gridCols - 1, Math.floor(((lon + 180) / 360) * gridCols)));
+                const si = (sr * gridCols + sc) * 4;
+                const di = (r * gridCols + c) * 4;
+                for (let k = 0; k < 4; k++) dst.data[di + k] = src.data[si + k];
+            }
+        }
+        ctx.putImageData(dst, 0, 0);
+    }
     
-  }, [data, mode, isGradient, displayMonth]);
+  }, [data, mode, isGradient, displayMonth, climateScheme, isSubstellarView]);
 
   // --- Animation Loop ---
   useEffect(() => {
@@ -111,17 +143,40 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
             currentX += mapWidth;
         }
 
-        drawOverlays(
-            ctx, data, mode, width, height, zoom, offsetY, 
-            startX, mapWidth, gridCols, gridRows, displayMonth, physicsParams
-        );
+        if (isSubstellarView) {
+            // Geographic overlays do not apply here; mark the convective centre and the terminator instead
+            const markers: { tlLat: number, color: string, label: string }[] = [
+                { tlLat: 90 - SUBSTELLAR_CONVECTION_RADIUS_DEG, color: 'rgba(250, 204, 21, 0.8)', label: '対流中心' },
+                { tlLat: 0, color: 'rgba(255, 255, 255, 0.8)', label: '明暗境界線' }
+            ];
+            ctx.save();
+            ctx.setLineDash([6, 4]);
+            ctx.lineWidth = 1.5;
+            ctx.font = 'bold 11px sans-serif';
+            for (const mk of markers) {
+                const y = offsetY + ((90 - mk.tlLat) / 180) * mapHeight;
+                ctx.strokeStyle = mk.color;
+                ctx.beginPath();
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+                ctx.stroke();
+                ctx.fillStyle = mk.color;
+                ctx.fillText(mk.label, 8, y - 4);
+            }
+            ctx.restore();
+        } else {
+            drawOverlays(
+                ctx, data, mode, width, height, zoom, offsetY, 
+                startX, mapWidth, gridCols, gridRows, displayMonth, physicsParams
+            );
+        }
 
         animationFrameId = requestAnimationFrame(draw);
     };
 
     draw();
     return () => cancelAnimationFrame(animationFrameId);
-  }, [data, mode, width, height, offsetX, offsetY, isGradient, displayMonth, physicsParams, zoom]);
+  }, [data, mode, width, height, offsetX, offsetY, isGradient, displayMonth, physicsParams, zoom, isSubstellarView]);
 
   // --- Interaction ---
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -177,8 +232,9 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
         return;
     }
 
-    const lon = (textureX / mapWidth) * 360 - 180;
-    const lat = 90 - (textureY / mapHeight) * 180;
+    const mapLon = (textureX / mapWidth) * 360 - 180;
+    const mapLat = 90 - (textureY / mapHeight) * 180;
+    const { lat, lon } = isSubstellarView ? fromTidallyLockedCoords(mapLat, mapLon) : { lat: mapLat, lon: mapLon };
 
     const lats = new Set(data.grid.map(c => c.lat));
     const gridRows = lats.size;
@@ -204,12 +260,38 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
       }
       
       let text = `緯度: ${cell.lat.toFixed(1)}, 経度: ${cell.lon.toFixed(1)}`;
+      if (isSubstellarView) text += `\n恒星直下点からの角距離: ${(90 - mapLat).toFixed(0)}° (${mapLat >= 0 ? '昼側' : '夜側'})`;
       
       if (mode === 'oceanCurrent') {
            if (!cell.isLand) {
+             const anomaly = getVal(cell.oceanCurrent);
              text += `\n属性: 海洋`;
+             text += `\n海流偏差: ${anomaly >= 0 ? '+' : ''}${anomaly.toFixed(2)} (${anomaly > 0.05 ? '暖流' : (anomaly < -0.05 ? '寒流' : '中立')})`;
+             const upwelling = getVal(cell.upwelling);
+             if (upwelling > 0.05) text += `\n湧昇: ${upwelling.toFixed(2)}`;
+           } else {
+             text += `\n属性: 陸地`;
+           }
+      } else if (mode === 'upwelling') {
+           if (!cell.isLand) {
+             const upwelling = getVal(cell.upwelling);
+             text += `\n湧昇指数: ${upwelling.toFixed(2)} (${upwelling > 0.5 ? '強い' : (upwelling > 0.15 ? '弱い' : 'なし')})`;
+             text += `\n海面水温: ${meanTemp}°C`;
+           } else {
+             text += `\n属性: 陸地`;
+             text += `\n気温: ${meanTemp}°C`;
+           }
+      } else if (mode === 'seaIce') {
+           if (!cell.isLand) {
+             const concentration = getVal(cell.seaIceConcentration);
+             const iceMonths = cell.seaIceConcentration.filter(v => v >= 0.15).length;
+             text += `\n海氷密接度: ${(concentration * 100).toFixed(0)}%`;
+             text += `\n海氷厚: ${getVal(cell.seaIceThickness).toFixed(2)} m`;
+             text += `\n結氷期間: ${iceMonths}ヶ月 (${iceMonths === 12 ? '多年氷' : (iceMonths > 0 ? '季節海氷' : '不凍')})`;
+             text += `\n海面水温: ${meanTemp}°C`;
            } else {
              text += `\n属性: 陸地`;
+             text += `\n気温: ${meanTemp}°C`;
            }
       } else if (mode === 'ocean_collision') {
            text += `\n衝突フィールド値: ${cell.collisionMask?.toFixed(1)}`;
@@ -226,9 +308,41 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
                text += `\n海洋深度: ${Math.abs(dist).toFixed(0)} km`;
            }
            text += `\n標高: ${cell.elevation.toFixed(0)}m`;
+      } else if (mode === 'insolation') {
+           text += `\n日射量: ${getVal(cell.insolation).toFixed(0)} W/m²`;
+           if (displayMonth !== 'annual' && data.insolation) {
+               text += `\n恒星フラックス (月内): ${data.insolation.minFlux[displayMonth].toFixed(0)} - ${data.insolation.peakFlux[displayMonth].toFixed(0)} W/m²`;
+           }
+      } else if (mode === 'temp' || mode === 'tempZonal') {
+           const zonal = (getVal(cell.tempZonal) - 273.15).toFixed(1);
+           text += `\n気温: ${meanTemp}°C`;
+           text += `\n帯状平均: ${zonal}°C`;
+           text += `\n属性: ${cell.isLand ? '陸地' : '海洋'}`;
+           text += `\n標高: ${cell.elevation.toFixed(0)}m`;
+           if (cell.iceCover > 0) text += `\n氷雪: ${cell.isLand ? '万年雪・氷床' : '海氷'}`;
+      } else if (mode === 'precip') {
+           text += `\n${precipLabel}: ${precipVal.toFixed(0)}mm`;
+           text += `\n可降水量: ${getVal(cell.moisture).toFixed(1)}mm`;
+           text += `\n気温: ${meanTemp}°C`;
+      } else if (mode === 'climate') {
+           const annualPrecip = cell.precip.reduce((a, b) => a + b, 0);
+           const scheme = CLASSIFICATION_SCHEMES[climateScheme];
+           const code = cell.climateClasses[climateScheme] ?? cell.climateClass;
+           text += `\n${scheme.label}: ${code}${scheme.names?.[code] ? ` (${scheme.names[code]})` : ''}`;
+           text += `\n年平均気温: ${(getVal(cell.temp) - 273.15).toFixed(1)}°C`;
+           text += `\n年降水: ${annualPrecip.toFixed(0)}mm`;
+           text += `\n標高: ${cell.elevation.toFixed(0)}m`;
       } else if (mode === 'step4') {
-           text += `\nStep 4 は未実装です`;
-           text += `\n現在は Step 2 の風場を表示基準として利用しています`;
+           const u = getVal(cell.windU);
+           const v = getVal(cell.windV);
+           text += `\n地形性上昇流: ${(getVal(cell.uplift) * 100).toFixed(1)} cm/s`;
+           text += `\n風速: ${Math.sqrt(u * u + v * v).toFixed(1)} m/s (U ${u.toFixed(1)}, V ${v.toFixed(1)})`;
+           text += `\n標高: ${cell.elevation.toFixed(0)}m`;
+      } else if (mode === 'orographic') {
+           text += `\n上昇流: ${(getVal(cell.orographicUplift) * 100).toFixed(1)} cm/s`;
+           text += `\n雨陰係数: ${getVal(cell.rainShadow).toFixed(2)}`;
+           text += `\n${precipLabel}: ${precipVal.toFixed(0)}mm`;
+           text += `\n標高: ${cell.elevation.toFixed(0)}m`;
       } else {
            text += `\n気温: ${meanTemp}°C`;
            text += `\n${precipLabel}: ${precipVal.toFixed(0)}mm`;
@@ -292,18 +406,46 @@ const MapVisualizer: React.FC<Props> = ({ data, mode, width, height, displayMont
       <div className="absolute bottom-3 left-3 bg-black/80 px-4 py-2 rounded-full text-xs font-bold text-white backdrop-blur-md pointer-events-none select-none flex items-center gap-2 border border-white/20 shadow-lg">
         <span className="w-2.5 h-2.5 rounded-full bg-blue-500 animate-pulse"></span>
         <span className="tracking-wider text-sm">{modeLabels[mode] || mode}</span>
-        {mode !== 'climate' && mode !== 'distCoast' && mode !== 'elevation' && mode !== 'oceanCurrent' && mode !== 'itcz_heatmap' && mode !== 'ocean_collision' && mode !== 'step4' && (
+        {mode !== 'climate' && mode !== 'distCoast' && mode !== 'elevation' && mode !== 'itcz_heatmap' && mode !== 'ocean_collision' && (
              <span className="ml-2 px-1.5 py-0.5 bg-gray-700 rounded text-[10px] text-gray-300">
-                 {displayMonth === 'annual' ? '年平均' : (displayMonth === 0 ? '1月' : '7月')}
+                 {displayMonth === 'annual' ? '年平均' : `${displayMonth + 1}月`}
              </span>
         )}
       </div>
 
-      <Legend mode={mode} />
+      <Legend mode={mode} climateScheme={climateScheme} insolationMax={insolationMax} />
 
-      {mode === 'step4' && (
-        <div className="absolute inset-x-4 top-4 z-20 border border-amber-500/40 bg-amber-950/40 text-amber-100 rounded px-3 py-2 text-xs backdrop-blur-sm">
-          Step 4 (気流詳細) は未実装です。現在は Step 2 の結果を代用しています。
+      {data?.tidalLock?.locked && (
+        <div 
+            className="absolute top-3 left-3 flex items-center gap-1 bg-black/80 px-2 py-1.5 rounded-full border border-white/20 backdrop-blur-md select-none pointer-events-auto shadow-lg"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            {([['geographic', '地理座標'], ['substellar', '潮汐固定座標']] as [CoordFrame, string][]).map(([key, label]) => (
+                <button
+                    key={key}
+                    onClick={() => setCoordFrame(key)}
+                    className={`px-2.5 py-1 text-[10px] font-bold rounded-full transition-colors ${coordFrame === key ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+      )}
+
+      {mode === 'climate' && (
+        <div 
+            className="absolute bottom-3 right-3 flex items-center gap-1 bg-black/80 px-2 py-1.5 rounded-full border border-white/20 backdrop-blur-md select-none pointer-events-auto shadow-lg"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            {(Object.keys(CLASSIFICATION_SCHEMES) as ClimateScheme[]).map(key => (
+                <button
+                    key={key}
+                    onClick={() => setClimateScheme(key)}
+                    className={`px-2.5 py-1 text-[10px] font-bold rounded-full transition-colors ${climateScheme === key ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                    {CLASSIFICATION_SCHEMES[key].label}
+                </button>
+            ))}
         </div>
       )}
 
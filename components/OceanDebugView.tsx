@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { DebugSimulationData, DebugAgentSnapshot, PlanetParams } from '../types';
+import { DebugSimulationData, DebugAgentSnapshot, PlanetParams, CellLayout } from '../types';
 import { computeOceanCurrents } from '../services/physics/ocean'; // Unified Engine
 import { SimulationConfig, PhysicsParams } from '../types';
 
@@ -12,11 +12,13 @@ interface Props {
     planet: PlanetParams;
     cellCount: number;
     windCellBoundaries?: number[];
+    windMonthlyCellBoundaries?: number[][];
+    windCellLayouts?: CellLayout[]; // [Month] what the engine's Step 3 runs used
     hadleyWidth?: number;
     onClose: () => void;
 }
 
-const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effectivePhys, planet, cellCount, windCellBoundaries, hadleyWidth, onClose }) => {
+const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effectivePhys, planet, cellCount, windCellBoundaries, windMonthlyCellBoundaries, windCellLayouts, hadleyWidth, onClose }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [debugData, setDebugData] = useState<DebugSimulationData | null>(null);
     const [currentStep, setCurrentStep] = useState(0);
@@ -31,35 +33,37 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
     const [showOverlayCells, setShowOverlayCells] = useState(false);
 
     // Debug Controls
-    const [targetMonth, setTargetMonth] = useState<0 | 6>(6); // Default July
+    const [targetMonth, setTargetMonth] = useState<number>(6); // Default July
 
     const mapSize = { width: 800, height: 400 };
 
     // Unit J: Use effective parameters for re-calculation if provided
     const activePhys = effectivePhys || phys;
+    // Signed latitudes of the guides: the selected month's seasonal boundaries when available
     const preferredCellBoundaries = useMemo(() => {
-        if (windCellBoundaries && windCellBoundaries.length > 1) {
-            return [...windCellBoundaries]
-                .filter(v => Number.isFinite(v) && v > 0 && v < 90)
-                .sort((a, b) => a - b);
+        const monthly = windMonthlyCellBoundaries?.[targetMonth];
+        if (monthly && monthly.length > 0) {
+            return monthly.filter(v => Number.isFinite(v) && Math.abs(v) < 90);
         }
-        if (cellCount > 1) {
-            const boundaries: number[] = [];
+        let hemisphere: number[] = [];
+        if (windCellBoundaries && windCellBoundaries.length > 1) {
+            hemisphere = windCellBoundaries.filter(v => Number.isFinite(v) && v > 0 && v < 90);
+        } else if (cellCount > 1) {
             for (let i = 1; i < cellCount; i++) {
-                boundaries.push((i * 90) / cellCount);
+                hemisphere.push((i * 90) / cellCount);
             }
-            return boundaries;
         }
-        return [];
-    }, [windCellBoundaries, cellCount]);
-    const usesWindBoundaries = !!windCellBoundaries && windCellBoundaries.length > 1;
+        return [...hemisphere.map(v => -v), ...hemisphere].sort((a, b) => a - b);
+    }, [windMonthlyCellBoundaries, windCellBoundaries, cellCount, targetMonth]);
+    const usesMonthlyBoundaries = !!windMonthlyCellBoundaries?.[targetMonth]?.length;
+    const usesWindBoundaries = usesMonthlyBoundaries || (!!windCellBoundaries && windCellBoundaries.length > 1);
 
     useEffect(() => {
         setLoading(true);
         
         const timer = setTimeout(() => {
             // Unit J: Re-calculate using active (effective) physics to match simulation result
-            const result = computeOceanCurrents(grid, itczLines, activePhys, config, planet, targetMonth);
+            const result = computeOceanCurrents(grid, itczLines, activePhys, config, planet, targetMonth, windCellLayouts);
             if (result.debugData) {
                 setDebugData(result.debugData);
                 setCurrentStep(0);
@@ -69,7 +73,7 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
         }, 100);
         
         return () => clearTimeout(timer);
-    }, [grid, itczLines, config, activePhys, planet, targetMonth]);
+    }, [grid, itczLines, config, activePhys, planet, targetMonth, windCellLayouts]);
 
     // Playback Loop
     useEffect(() => {
@@ -196,7 +200,6 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
         if (showOverlayCells && preferredCellBoundaries.length > 0) {
             for (const lat of preferredCellBoundaries) {
                 renderLatHLine(lat, 'rgba(255, 255, 255, 0.3)', [2, 2], 1);
-                renderLatHLine(-lat, 'rgba(255, 255, 255, 0.3)', [2, 2], 1);
             }
         }
 
@@ -212,6 +215,8 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
              if (agent.state === 'active' || agent.state === 'crawling') {
                  if (agent.state === 'crawling') ctx.fillStyle = '#d946ef'; 
                  else if (agent.type === 'ECC') ctx.fillStyle = '#ff4400'; 
+                 else if (agent.type === 'GYRE_N' || agent.type === 'GYRE_S') ctx.fillStyle = '#ffaa00';
+                 else if (agent.type === 'ACC') ctx.fillStyle = '#b388ff';
                  else ctx.fillStyle = '#00ccff'; 
                  
                  const speed = Math.sqrt(agent.vx*agent.vx + agent.vy*agent.vy);
@@ -313,20 +318,17 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
                     </h2>
 
                     <div className="flex items-center gap-6">
-                        {/* Month Toggle */}
+                        {/* Month Selector */}
                         <div className="flex bg-gray-800 rounded p-1 border border-gray-700">
-                             <button 
-                                onClick={() => setTargetMonth(0)} 
-                                className={`px-3 py-1 text-xs rounded font-bold transition-colors ${targetMonth===0 ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                             >
-                                 1月 (南半球の夏)
-                             </button>
-                             <button 
-                                onClick={() => setTargetMonth(6)} 
-                                className={`px-3 py-1 text-xs rounded font-bold transition-colors ${targetMonth===6 ? 'bg-red-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                             >
-                                 7月 (北半球の夏)
-                             </button>
+                             {Array.from({ length: 12 }, (_, m) => (
+                                 <button
+                                    key={m}
+                                    onClick={() => setTargetMonth(m)}
+                                    className={`px-2 py-1 text-xs rounded font-bold transition-colors ${targetMonth === m ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                 >
+                                     {m + 1}月
+                                 </button>
+                             ))}
                         </div>
                     </div>
 
@@ -403,7 +405,7 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
                             <div className="flex justify-between">
                                 <span>境界ソース:</span>
                                 <span className={usesWindBoundaries ? "text-cyan-300" : "text-gray-500"}>
-                                    {usesWindBoundaries ? 'wind.cellBoundariesDeg' : '90/cellCount'}
+                                    {usesMonthlyBoundaries ? `wind.monthlyCellBoundariesDeg[${targetMonth}]` : (usesWindBoundaries ? 'wind.cellBoundariesDeg' : '90/cellCount')}
                                 </span>
                             </div>
                             <div className="text-[9px] text-gray-500 break-words">
@@ -416,7 +418,7 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
 
                         <h3 className="text-xs font-bold text-gray-500 uppercase mb-3">フレーム詳細</h3>
                         <div className="space-y-2 text-xs font-mono text-gray-300">
-                             <div className="flex justify-between"><span>対象季節:</span> <span className={targetMonth === 6 ? "text-red-400" : "text-blue-400"}>{targetMonth === 6 ? '7月 (夏)' : '1月 (冬)'}</span></div>
+                             <div className="flex justify-between"><span>対象月:</span> <span className="text-blue-400">{targetMonth + 1}月</span></div>
                              <div className="flex justify-between"><span>ステップ:</span> <span className="text-white">{currentStep}</span> / {debugData?.frames.length}</div>
                              <div className="flex justify-between"><span>アクティブ:</span> <span className="text-blue-300">{debugData?.frames[currentStep]?.agents.filter(a=>a.state==='active' || a.state==='crawling').length}</span></div>
                              <div className="flex justify-between"><span>消滅/停滞:</span> <span className="text-red-300">{debugData?.frames[currentStep]?.agents.filter(a=>a.state!=='active' && a.state!=='crawling').length}</span></div>
@@ -426,6 +428,8 @@ const OceanDebugView: React.FC<Props> = ({ grid, itczLines, config, phys, effect
                         <div className="space-y-2 text-xs text-gray-400">
                              <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#ff4400]"></span> 赤道反流 (ECC)</div>
                              <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#00ccff]"></span> 赤道海流 (EC)</div>
+                             <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#ffaa00]"></span> 亜熱帯循環 (Gyre)</div>
+                             <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#b388ff]"></span> 周極流 (ACC)</div>
                              <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#d946ef]"></span> 沿岸這行 (Crawl)</div>
                              <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-yellow-500 border border-orange-500"></span> 停滞 (Stuck)</div>
                              <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-white border border-red-500"></span> 衝突点 (Impact)</div>
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { analyzeSimulation, TestResult } from '../utils/testSuite';
+import { analyzeSimulation, runTestSuite, TestResult } from '../utils/testSuite';
 import { SimulationResult } from '../types';
 
 interface Props {
@@ -10,6 +10,7 @@ interface Props {
 
 const TestOverlay: React.FC<Props> = ({ onClose, currentResult }) => {
     const [results, setResults] = useState<TestResult[] | null>(null);
+    const [isRegressionRunning, setIsRegressionRunning] = useState(false);
 
     const runDiagnostics = () => {
         if (!currentResult) {
@@ -20,6 +21,16 @@ const TestOverlay: React.FC<Props> = ({ onClose, currentResult }) => {
         setResults(res);
     };
 
+    // Independent of the current result: simulates a reference planet and its retrograde mirror image
+    const runRegression = async () => {
+        setIsRegressionRunning(true);
+        try {
+            setResults(await runTestSuite());
+        } finally {
+            setIsRegressionRunning(false);
+        }
+    };
+
     return (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
             <div className="bg-gray-900 border border-gray-700 p-6 rounded-lg shadow-2xl w-[32rem] max-h-[80vh] overflow-y-auto">
@@ -37,6 +48,13 @@ const TestOverlay: React.FC<Props> = ({ onClose, currentResult }) => {
                         >
                             解析エンジンを起動
                         </button>
+                        <button 
+                            onClick={runRegression}
+                            disabled={isRegressionRunning}
+                            className="block mx-auto mt-4 text-xs text-gray-400 hover:text-white underline disabled:opacity-50"
+                        >
+                            {isRegressionRunning ? '回帰テスト実行中...' : '回帰テスト (逆行自転の鏡像惑星) を実行'}
+                        </button>
                     </div>
                 )}
 
@@ -11,9 +11,13 @@ const WindDebugView: React.FC<Props> = ({ result, onClose }) => {
     const wind = result.wind;
     if (!wind) return null;
 
+    const params = wind.debug.paramsUsed;
+    const num = (key: string) => typeof params[key] === 'number' ? params[key] as number : undefined;
+    const thermalRossby = num('thermalRossby');
+
     return (
         <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-8 backdrop-blur-sm">
-            <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl overflow-hidden max-w-2xl w-full flex flex-col">
+            <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl overflow-hidden max-w-2xl w-full max-h-full flex flex-col">
                 <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-950">
                     <h2 className="text-lg font-bold text-white flex items-center gap-2">
                         <span className="text-blue-500 font-mono text-xl">≋</span>
@@ -24,10 +28,13 @@ const WindDebugView: React.FC<Props> = ({ result, onClose }) => {
                     </button>
                 </div>
 
-                <div className="p-6 space-y-6">
+                <div className="p-6 space-y-6 overflow-y-auto">
                     <div className="grid grid-cols-2 gap-4">
                         <div className="bg-gray-800/50 p-4 rounded border border-gray-700">
-                            <h3 className="text-[10px] font-bold text-gray-500 uppercase mb-3">循環境界 (北半球)</h3>
+                            <h3 className="text-[10px] font-bold text-gray-500 uppercase mb-3">
+                                循環境界 (北半球)
+                                {wind.gradientReversed && <span className="ml-2 text-red-400 normal-case">勾配反転: 直接循環は極側</span>}
+                            </h3>
                             <div className="space-y-2">
                                 {wind.cellBoundariesDeg.map((b, i) => (
                                     <div key={i} className="flex justify-between items-center text-xs">
@@ -57,6 +64,60 @@ const WindDebugView: React.FC<Props> = ({ result, onClose }) => {
                         </div>
                     </div>
 
+                    {wind.monthlyCellBoundariesDeg.some(b => b.length > 0) && (
+                        <div className="bg-gray-800/50 p-4 rounded border border-gray-700">
+                            <h3 className="text-[10px] font-bold text-gray-500 uppercase mb-3">
+                                月別の循環境界 (南→北)
+                                {params.regime === 'highObliquity' && (
+                                    <span className="ml-2 text-red-400 normal-case">高傾斜角: 極を越える境界は除くため本数は月ごとに変わる</span>
+                                )}
+                            </h3>
+                            <div className="grid grid-cols-2 gap-x-8 gap-y-1">
+                                {wind.monthlyCellBoundariesDeg.map((bounds, m) => (
+                                    <div key={m} className="flex justify-between items-center text-xs">
+                                        <span className="text-gray-400">{m + 1}月 ({bounds.length}本):</span>
+                                        <span className="font-mono text-white">{bounds.map(b => `${b.toFixed(1)}°`).join(', ')}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {thermalRossby !== undefined && (
+                        <div className="bg-gray-800/50 p-4 rounded border border-gray-700">
+                            <h3 className="text-[10px] font-bold text-gray-500 uppercase mb-3">
+                                循環スケーリング (Held–Hou / Rhines)
+                                <span className="ml-2 text-red-400 normal-case">{params.circulationScaling === 'heldHou' ? '適用中' : '参考値'}</span>
+                            </h3>
+                            <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-xs">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">熱ロスビー数 Ro_T:</span>
+                                    <span className="font-mono text-yellow-400">{thermalRossby.toFixed(3)}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">Held–Hou ハドレー端:</span>
+                                    <span className="font-mono text-white">{(num('heldHouEdgeDeg') ?? 0).toFixed(1)}°</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">Rhines 長:</span>
+                                    <span className="font-mono text-yellow-400">{Math.round(num('rhinesLengthKm') ?? 0).toLocaleString()} km</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">ジェット数 (片半球):</span>
+                                    <span className="font-mono text-white">{num('rhinesJetCount') ?? 0}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">赤道–極 ΔT:</span>
+                                    <span className="font-mono text-white">{(num('equatorPoleContrastK') ?? 0).toFixed(1)} K</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-400">対流圏高度:</span>
+                                    <span className="font-mono text-white">{(num('tropopauseHeightKm') ?? 0).toFixed(1)} km</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     <div className="bg-gray-950 p-4 rounded border border-gray-800">
                         <h3 className="text-[10px] font-bold text-gray-500 uppercase mb-3">計算コンテキスト</h3>
                         <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-[10px] font-mono">
@@ -11,7 +11,9 @@ interface DialProps {
     max: number;
 }
 
-const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defaultValue }) => {
+const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defaultValue, min, max }) => {
+    // Past 90° the dial opens into a half disc: 0 points up, 90 right, 180 down
+    const isHalfDisc = max > 90;
     const [isDragging, setIsDragging] = useState(false);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -33,16 +35,15 @@ const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defau
             if (!isDragging || !containerRef.current) return;
             const rect = containerRef.current.getBoundingClientRect();
             const pivotX = rect.left;
-            const pivotY = rect.bottom;
+            const pivotY = isHalfDisc ? rect.top + rect.height / 2 : rect.bottom;
             const dx = e.clientX - pivotX;
             const dy = pivotY - e.clientY;
-            if (dx <= 0 && dy <= 0) return;
+            if (!isHalfDisc && dx <= 0 && dy <= 0) return;
             
-            let angleRad = Math.atan2(dy, Math.max(0.1, dx));
-            let angleDeg = angleRad * 180 / Math.PI;
-            // Clamp value between 0 and 90. 
+            // Angle from the vertical, clockwise
             // 0 is vertical (90 deg in polar), 90 is horizontal (0 deg in polar)
-            let result = Math.max(0, Math.min(90, 90 - angleDeg));
+            const angleDeg = Math.atan2(Math.max(0.1, dx), dy) * 180 / Math.PI;
+            const result = Math.max(min, Math.min(max, angleDeg));
             onChange(Math.round(result * 100) / 100);
         };
         const handleMouseUp = () => setIsDragging(false);
@@ -54,7 +55,7 @@ const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defau
             window.removeEventListener('mousemove', handleMouseMove);
             window.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [isDragging, onChange]);
+    }, [isDragging, onChange, isHalfDisc, min, max]);
 
     return (
         <div 
@@ -66,8 +67,8 @@ const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defau
                 <div className="flex items-center bg-gray-900 rounded px-1.5 py-0.5 border border-gray-700 group-hover:border-gray-500 transition-colors w-[5rem] justify-end">
                     <input 
                         type="number"
-                        min={0}
-                        max={90}
+                        min={min}
+                        max={max}
                         step={0.01}
                         value={value}
                         onChange={(e) => {
@@ -81,26 +82,31 @@ const QuadrantDial: React.FC<DialProps> = ({ label, value, onChange, unit, defau
             </div>
             
             <div className="flex-1 flex items-center justify-center min-h-0">
-                <div className="relative w-32 h-32 select-none">
+                <div className={`relative select-none ${isHalfDisc ? 'w-16 h-32' : 'w-32 h-32'}`}>
                     <div 
                         ref={containerRef}
-                        className="w-full h-full bg-gray-950 border-t border-r border-gray-700 rounded-tr-[100%] cursor-crosshair overflow-hidden relative shadow-inner"
+                        className={`w-full h-full bg-gray-950 border-gray-700 cursor-crosshair overflow-hidden relative shadow-inner ${isHalfDisc ? 'border-y border-r rounded-r-full' : 'border-t border-r rounded-tr-[100%]'}`}
                         onMouseDown={handleMouseDown}
                     >
                         {/* Scale Lines */}
-                        <div className="absolute bottom-0 left-0 w-[140%] h-[1px] bg-gray-800/50 origin-bottom-left rotate-[-30deg]"></div>
-                        <div className="absolute bottom-0 left-0 w-[140%] h-[1px] bg-gray-800/50 origin-bottom-left rotate-[-60deg]"></div>
+                        {(isHalfDisc ? [-60, -30, 0, 30, 60] : [-30, -60]).map(deg => (
+                            <div
+                                key={deg}
+                                className={`absolute left-0 w-[140%] h-[1px] origin-left ${deg === 0 ? 'bg-gray-700/70' : 'bg-gray-800/50'} ${isHalfDisc ? 'top-1/2' : 'bottom-0'}`}
+                                style={{ transform: `rotate(${deg}deg)` }}
+                            ></div>
+                        ))}
                         
                         {/* Pointer Line */}
                         <div 
-                            className="absolute bottom-0 left-0 w-[130%] h-0.5 bg-gradient-to-r from-orange-600 to-orange-400 origin-bottom-left shadow-[0_0_8px_rgba(249,115,22,0.6)] pointer-events-none"
+                            className={`absolute left-0 h-0.5 bg-gradient-to-r from-orange-600 to-orange-400 origin-left shadow-[0_0_8px_rgba(249,115,22,0.6)] pointer-events-none ${isHalfDisc ? 'top-1/2 w-[90%]' : 'bottom-0 w-[130%]'}`}
                             style={{ transform: `rotate(${value - 90}deg)` }} 
                         >
                             <div className="absolute right-0 top-1/2 transform translate-x-1/2 -translate-y-1/2 w-2.5 h-2.5 bg-white rounded-full shadow-[0_0_10px_white]"></div>
                         </div>
 
-                        {/* Corner Pivot Point */}
-                        <div className="absolute bottom-0 left-0 w-3 h-3 bg-gray-700 rounded-full -translate-x-1/2 translate-y-1/2 border border-gray-600"></div>
+                        {/* Pivot Point */}
+                        <div className={`absolute left-0 w-3 h-3 bg-gray-700 rounded-full -translate-x-1/2 border border-gray-600 ${isHalfDisc ? 'top-1/2 -translate-y-1/2' : 'bottom-0 translate-y-1/2'}`}></div>
                     </div>
                 </div>
             </div>
@@ -1,7 +1,9 @@
 
 import React from 'react';
+import { ClimateScheme } from '../../types';
+import { CLASSIFICATION_SCHEMES } from '../../services/classification';
 
-const Legend: React.FC<{ mode: string }> = ({ mode }) => {
+const Legend: React.FC<{ mode: string, climateScheme?: ClimateScheme, insolationMax?: number }> = ({ mode, climateScheme = 'koppen', insolationMax = 500 }) => {
     const containerClass = "absolute top-3 right-3 bg-gray-950/95 p-4 rounded-lg border border-white/20 backdrop-blur-md text-xs text-gray-100 shadow-xl max-w-[280px] overflow-y-auto max-h-[calc(100%-24px)] custom-scrollbar";
     const titleClass = "font-bold mb-3 text-white border-b border-gray-600 pb-1 text-sm";
     const labelClass = "text-gray-200";
@@ -31,6 +33,25 @@ const Legend: React.FC<{ mode: string }> = ({ mode }) => {
                                 <span>急峻(鮮明)</span>
                              </div>
                         </div>
+                        <div className="flex flex-col gap-1 mt-3 pt-2 border-t border-gray-700">
+                             <span className="text-[9px] text-gray-400">亜熱帯循環:</span>
+                             <div className="flex items-center gap-2">
+                                 <div className="w-6 h-0.5 bg-[#ff7a00]"></div>
+                                 <span className="text-[10px]">西岸境界流</span>
+                             </div>
+                             <div className="flex items-center gap-2">
+                                 <div className="w-6 h-0.5 bg-[#ffc04d]"></div>
+                                 <span className="text-[10px]">偏西風漂流</span>
+                             </div>
+                             <div className="flex items-center gap-2">
+                                 <div className="w-6 h-0.5 bg-[#00c8ff]"></div>
+                                 <span className="text-[10px]">東岸還流 (赤道向き)</span>
+                             </div>
+                             <div className="flex items-center gap-2">
+                                 <div className="w-6 h-0.5 bg-[#b388ff]"></div>
+                                 <span className="text-[10px]">周極流 (開けた緯度帯)</span>
+                             </div>
+                        </div>
                         <div className="flex items-center gap-2 mt-3 pt-2 border-t border-gray-700">
                              <div className="w-6 h-0 border-t border-white border-dashed"></div>
                              <span className="text-[10px] text-gray-400">ITCZ (収束中心線)</span>
@@ -43,6 +64,14 @@ const Legend: React.FC<{ mode: string }> = ({ mode }) => {
                              <span className="text-cyan-400 font-bold text-lg leading-none">+</span>
                              <span className="text-[10px] text-cyan-200">寒流の沿岸衝突 (EC)</span>
                         </div>
+                        <div className="flex items-center gap-2 mt-0">
+                             <span className="text-[#b388ff] font-bold text-lg leading-none">◇</span>
+                             <span className="text-[10px] text-purple-200">周極流の島嶼衝突 (ACC)</span>
+                        </div>
+                        <div className="flex items-center gap-2 mt-0">
+                             <span className="w-3 h-3 bg-[#2dd4bf]/70"></span>
+                             <span className="text-[10px] text-teal-200">湧昇域 (Step 3.3)</span>
+                        </div>
                     </div>
                 </div>
             );
@@ -117,6 +146,19 @@ const Legend: React.FC<{ mode: string }> = ({ mode }) => {
                     </div>
                 </div>
             );
+        case 'insolation':
+            return (
+                <div className={containerClass}>
+                    <h4 className={titleClass}>大気上端日射量 (日平均)</h4>
+                    <div className="h-4 w-full rounded-sm mb-1 border border-gray-700"
+                        style={{ background: 'linear-gradient(to right, #ffffcc, #fd8d3c, #800026)' }}
+                    ></div>
+                    <div className={`flex justify-between text-[10px] font-mono ${labelClass}`}>
+                        <span>0</span><span>{insolationMax / 2}</span><span>{insolationMax} W/m²</span>
+                    </div>
+                    <p className="text-[9px] text-gray-400 mt-2 leading-tight">光度・軌道長半径・離心率・近日点引数・地軸傾斜から算出した月平均値です。</p>
+                </div>
+            );
         case 'precip':
             return (
                 <div className={containerClass}>
@@ -127,6 +169,23 @@ const Legend: React.FC<{ mode: string }> = ({ mode }) => {
                     </div>
                 </div>
             );
+        case 'climate': {
+            const scheme = CLASSIFICATION_SCHEMES[climateScheme];
+            return (
+                <div className={containerClass}>
+                    <h4 className={titleClass}>{scheme.label} 気候区分</h4>
+                    <div className={`grid ${scheme.names ? 'grid-cols-1' : 'grid-cols-3'} gap-x-3 gap-y-1`}>
+                        {Object.entries(scheme.colors).map(([code, color]) => (
+                            <div key={code} className="flex items-center gap-1.5">
+                                <div className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: color }}></div>
+                                <span className="text-[10px] font-mono">{code}</span>
+                                {scheme.names?.[code] && <span className="text-[10px] text-gray-400">{scheme.names[code]}</span>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            );
+        }
         case 'distCoast':
             return (
                 <div className={containerClass}>
@@ -155,10 +214,56 @@ const Legend: React.FC<{ mode: string }> = ({ mode }) => {
         case 'step4':
             return (
                 <div className={containerClass}>
-                    <h4 className={titleClass}>Step 4: 気流詳細</h4>
-                    <p className="text-[10px] text-amber-200 leading-relaxed">
-                        このステップは未実装です。表示はプレースホルダで、物理結果は含みません。
-                    </p>
+                    <h4 className={titleClass}>Step 4: 気流詳細 (地形性上昇流)</h4>
+                    <div className="h-4 w-full rounded-sm mb-1 border border-gray-700"
+                        style={{ background: 'linear-gradient(to right, #b2182b, #f7f7f7, #2166ac)' }}
+                    ></div>
+                    <div className={`flex justify-between text-[10px] font-mono ${labelClass}`}>
+                        <span>下降 -5cm/s</span><span>0</span><span>上昇 +5cm/s</span>
+                    </div>
+                    <div className="flex items-center gap-2 mt-3 pt-2 border-t border-gray-700">
+                        <span className="text-white font-bold leading-none">→</span>
+                        <span className="text-[10px] text-gray-400">補正後の地上風 (山岳の迂回・減速 + モンスーン)</span>
+                    </div>
+                </div>
+            );
+        case 'upwelling':
+            return (
+                <div className={containerClass}>
+                    <h4 className={titleClass}>Step 3.3: 沿岸湧昇・冷水舌</h4>
+                    <div className="h-4 w-full rounded-sm mb-1 border border-gray-700"
+                        style={{ background: 'linear-gradient(to right, #f7fcf0, #7bccc4, #084081)' }}
+                    ></div>
+                    <div className={`flex justify-between text-[10px] font-mono ${labelClass}`}>
+                        <span>なし (0)</span><span>0.5</span><span>強い (1.0)</span>
+                    </div>
+                    <p className="text-[9px] text-gray-400 mt-2 leading-tight">東岸境界で赤道向きの沿岸風が表層水を沖へ運ぶと冷水が湧き上がり、沿岸砂漠や霧の帯を生みます。赤道の東風による冷水舌も含みます。</p>
+                </div>
+            );
+        case 'seaIce':
+            return (
+                <div className={containerClass}>
+                    <h4 className={titleClass}>Step 5.4: 海氷</h4>
+                    <div className="h-4 w-full rounded-sm mb-1 border border-gray-700"
+                        style={{ background: 'linear-gradient(to right, #0b1d3a, #4a6fa5 15%, #f8fafc)' }}
+                    ></div>
+                    <div className={`flex justify-between text-[10px] font-mono ${labelClass}`}>
+                        <span>開水面 (0%)</span><span>15%</span><span>密氷 (100%)</span>
+                    </div>
+                    <p className="text-[9px] text-gray-400 mt-2 leading-tight">月平均気温が海水の結氷点 (-1.8°C) を下回ると海氷が成長し、上回ると融解します。密接度15%以上を海氷面積に数えます。密氷は海流の壁となり、海洋の熱を断熱します。</p>
+                </div>
+            );
+        case 'orographic':
+            return (
+                <div className={containerClass}>
+                    <h4 className={titleClass}>Step 4.2: 地形性降水と雨陰</h4>
+                    <div className="h-4 w-full rounded-sm mb-1 border border-gray-700"
+                        style={{ background: 'linear-gradient(to right, #543005, #f5f5f5, #003c30)' }}
+                    ></div>
+                    <div className={`flex justify-between text-[10px] font-mono ${labelClass}`}>
+                        <span>雨陰 (風下)</span><span>影響なし</span><span>風上斜面</span>
+                    </div>
+                    <p className="text-[9px] text-gray-400 mt-2 leading-tight">風上の上昇流は降水を強め、風上側の山脈に遮られた地域は乾燥します。</p>
                 </div>
             );
         default:
@@ -1,5 +1,17 @@
 
 import { SimulationResult, OceanStreamline, PhysicsParams } from '../../types';
+import { fromTidallyLockedCoords } from '../../services/physics/tidalLock';
+
+const FIXED_STREAMLINE_COLORS: Partial<Record<OceanStreamline['type'], string>> = {
+    gyre_wbc: '#ff7a00',
+    gyre_drift: '#ffc04d',
+    gyre_return: '#00c8ff',
+    circumpolar: '#b388ff'
+};
+
+const UPWELLING_OVERLAY_COLOR = '#2dd4bf';
+const UPWELLING_OVERLAY_MIN = 0.15;
+const ANNUAL_CURRENT_MIN_FRACTION = 0.05; // annual-mean currents weaker than this share of the strongest are not drawn
 
 export const drawOverlays = (
     ctx: CanvasRenderingContext2D,
@@ -13,7 +25,7 @@ export const drawOverlays = (
     mapWidth: number,
     gridCols: number,
     gridRows: number,
-    displayMonth: 'annual' | 0 | 6,
+    displayMonth: number | 'annual',
     physicsParams?: PhysicsParams
 ) => {
     const getX = (colIdx: number) => (colIdx / gridCols) * mapWidth;
@@ -53,12 +65,17 @@ export const drawOverlays = (
             ctx.stroke();
         };
 
-        w.cellBoundariesDeg.forEach(b => {
-            if (b < 90) {
-                drawHLine(b);
-                drawHLine(-b);
-            }
-        });
+        if (isAnnual) {
+            w.cellBoundariesDeg.forEach(b => {
+                if (b < 90) {
+                    drawHLine(b);
+                    drawHLine(-b);
+                }
+            });
+        } else {
+            // Seasonal layout of the displayed month (signed latitudes)
+            (w.monthlyCellBoundariesDeg[displayMonth] ?? []).forEach(drawHLine);
+        }
         drawHLine(0); // Equator
         ctx.setLineDash([]);
 
@@ -187,17 +204,46 @@ export const drawOverlays = (
         }
     }
 
+    // --- TIDALLY LOCKED CONVECTIVE CENTRE ---
+    const center = data.tidalLock?.convectiveCenter;
+    if ((mode === 'itcz_result' || mode === 'wind_belts') && center) {
+        const subLat = displayMonth === 'annual'
+            ? center.latDeg.reduce((a, b) => a + b, 0) / 12
+            : center.latDeg[displayMonth];
+        const ring: { lat: number, lon: number }[] = [];
+        for (let az = 0; az <= 360; az += 5) {
+            ring.push(fromTidallyLockedCoords(90 - center.radiusDeg, az, subLat, center.lonDeg));
+        }
+
+        ctx.strokeStyle = '#FFFF00';
+        ctx.lineWidth = 2.0 * Math.sqrt(zoom);
+        ctx.setLineDash([6 * zoom, 4 * zoom]);
+        let cx = startX;
+        while (cx < width) {
+            ctx.beginPath();
+            ring.forEach((p, i) => {
+                const x = ((p.lon + 180) / 360) * mapWidth + cx;
+                const y = getY(p.lat) + offsetY;
+                if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+            });
+            ctx.stroke();
+
+            const sx = ((center.lonDeg + 180) / 360) * mapWidth + cx;
+            const sy = getY(subLat) + offsetY;
+            ctx.fillStyle = '#FFFF00';
+            ctx.beginPath();
+            ctx.arc(sx, sy, 4 * Math.sqrt(zoom), 0, Math.PI * 2);
+            ctx.fill();
+            cx += mapWidth;
+        }
+        ctx.setLineDash([]);
+    }
+
     const arrowsToDraw: {x: number, y: number, angle: number, color: string, scale: number}[] = [];
 
     // Ocean Currents
     if (mode === 'oceanCurrent' && data.oceanStreamlines) {
         const isAnnual = displayMonth === 'annual';
-        const availableMonths = data.oceanStreamlines
-            .map((monthLines, idx) => (monthLines && monthLines.length > 0 ? idx : -1))
-            .filter(idx => idx >= 0);
-        const monthsToDraw = isAnnual
-            ? (availableMonths.length > 0 ? availableMonths : [0])
-            : [displayMonth];
 
         let annualItcz: number[] | null = null;
         if (isAnnual && data.itczLines) {
@@ -263,6 +309,25 @@ export const drawOverlays = (
              ctx.setLineDash([]);
         }
 
+        // Step 3.3 upwelling cells, drawn under the streamlines next to the EC impact markers
+        if (data.upwelling) {
+            const cellW = mapWidth / gridCols;
+            const cellH = (height * zoom) / gridRows;
+            ctx.fillStyle = UPWELLING_OVERLAY_COLOR;
+            for (let i = 0; i < data.grid.length; i++) {
+                const cell = data.grid[i];
+                if (cell.isLand) continue;
+                const val = isAnnual ? cell.upwelling.reduce((a, b) => a + b, 0) / 12 : cell.upwelling[displayMonth];
+                if (val < UPWELLING_OVERLAY_MIN) continue;
+                ctx.globalAlpha = Math.min(0.8, 0.2 + val);
+                const col = i % gridCols;
+                const y = getY(cell.lat) + offsetY - cellH / 2;
+                let cx = startX;
+                while (cx < width) { ctx.fillRect(getX(col) + cx, y, cellW, cellH); cx += mapWidth; }
+            }
+            ctx.globalAlpha = 1;
+        }
+
         const drawStreamline = (line: OceanStreamline, xOff: number, itczRef: number[]) => {
             const pts = line.points;
             if (pts.length < 2) return;
@@ -312,7 +377,8 @@ export const drawOverlays = (
                      g = Math.floor(140 * intensity); 
                      b = Math.floor(255 * intensity);
                  }
-                 const colorStr = `rgb(${r}, ${g}, ${b})`;
+                 // Gyre (Pass 3) and circumpolar (Pass 4) lines use fixed colours per type
+                 const colorStr = FIXED_STREAMLINE_COLORS[line.type] || `rgb(${r}, ${g}, ${b})`;
                  ctx.strokeStyle = colorStr;
                  
                  ctx.beginPath();
@@ -339,7 +405,59 @@ export const drawOverlays = (
             }
         };
         
-        for (const m of monthsToDraw) {
+        // Annual view: the Step 3.2 current vectors averaged over the year, so currents that reverse with the
+        // seasons (monsoon drift) cancel and year-round ones remain. Coloured by the streamline rule.
+        if (isAnnual) {
+            const stride = Math.max(2, Math.round(gridCols / 60));
+            const annualU = new Float64Array(data.grid.length);
+            const annualV = new Float64Array(data.grid.length);
+            let maxSpeed = 0;
+            for (let i = 0; i < data.grid.length; i++) {
+                const cell = data.grid[i];
+                if (cell.isLand) continue;
+                annualU[i] = cell.oceanCurrentU.reduce((a, b) => a + b, 0) / 12;
+                annualV[i] = cell.oceanCurrentV.reduce((a, b) => a + b, 0) / 12;
+                maxSpeed = Math.max(maxSpeed, Math.hypot(annualU[i], annualV[i]));
+            }
+
+            ctx.lineWidth = 1.5 * Math.sqrt(zoom);
+            ctx.lineCap = 'round';
+            for (let r = Math.floor(stride / 2); r < gridRows && maxSpeed > 0; r += stride) {
+                for (let c = 0; c < gridCols; c += stride) {
+                    const i = r * gridCols + c;
+                    const u = annualU[i];
+                    const v = annualV[i];
+                    const speed = Math.hypot(u, v);
+                    if (data.grid[i].isLand || speed < ANNUAL_CURRENT_MIN_FRACTION * maxSpeed) continue;
+
+                    const itczLat = overlayItcz?.[c] ?? 0;
+                    const isLeaving = data.grid[i].lat >= itczLat ? v > 0 : v < 0;
+                    const intensity = 0.3 + 0.7 * Math.pow(Math.abs(v) / speed, 2);
+                    const colorStr = isLeaving
+                        ? `rgb(${Math.floor(255 * intensity)}, ${Math.floor(20 * intensity)}, ${Math.floor(20 * intensity)})`
+                        : `rgb(${Math.floor(20 * intensity)}, ${Math.floor(140 * intensity)}, ${Math.floor(255 * intensity)})`;
+                    const angle = Math.atan2(-v, u);
+                    const len = (0.3 + 0.7 * speed / maxSpeed) * (mapWidth / gridCols) * stride * 0.45;
+
+                    ctx.strokeStyle = colorStr;
+                    let cx = startX;
+                    while (cx < width) {
+                        const x = getX(c + 0.5) + cx;
+                        const y = getY(data.grid[i].lat) + offsetY;
+                        const dx = Math.cos(angle) * len;
+                        const dy = Math.sin(angle) * len;
+                        ctx.beginPath();
+                        ctx.moveTo(x - dx, y - dy);
+                        ctx.lineTo(x + dx, y + dy);
+                        ctx.stroke();
+                        arrowsToDraw.push({ x: x + dx, y: y + dy, angle, color: colorStr, scale: 0.6 * Math.sqrt(zoom) });
+                        cx += mapWidth;
+                    }
+                }
+            }
+        }
+
+        for (const m of isAnnual ? [] : [displayMonth]) {
             const lines = data.oceanStreamlines[m] || [];
             const itczRef = data.itczLines?.[m] || overlayItcz || [];
 
@@ -372,6 +490,16 @@ export const drawOverlays = (
                         ctx.beginPath();
                         ctx.arc(x, y, size * 1.5, 0, Math.PI * 2);
                         ctx.fill();
+                    } else if (im.type === 'ACC') {
+                        ctx.strokeStyle = '#b388ff';
+                        ctx.lineWidth = 2 * Math.sqrt(zoom);
+                        ctx.beginPath();
+                        ctx.moveTo(x, y - size);
+                        ctx.lineTo(x + size, y);
+                        ctx.lineTo(x, y + size);
+                        ctx.lineTo(x - size, y);
+                        ctx.closePath();
+                        ctx.stroke();
                     } else {
                         ctx.strokeStyle = '#44ffff';
                         ctx.lineWidth = 2 * Math.sqrt(zoom);
@@ -399,6 +527,42 @@ export const drawOverlays = (
         }
     }
 
+    // Step 4: Refined wind vectors (sparse grid)
+    if (mode === 'step4') {
+        const stride = Math.max(2, Math.round(gridCols / 45));
+        const monthVal = (arr: number[]) => displayMonth === 'annual'
+            ? arr.reduce((a, b) => a + b, 0) / 12
+            : arr[displayMonth];
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.lineWidth = 1.0 * Math.sqrt(zoom);
+        for (let r = Math.floor(stride / 2); r < gridRows; r += stride) {
+            for (let c = 0; c < gridCols; c += stride) {
+                const cell = data.grid[r * gridCols + c];
+                const u = monthVal(cell.windU);
+                const v = monthVal(cell.windV);
+                const speed = Math.sqrt(u * u + v * v);
+                if (speed < 0.5) continue;
+
+                const angle = Math.atan2(-v, u);
+                const len = Math.min(1.0, speed / 10.0) * (mapWidth / gridCols) * stride * 0.45;
+                let cx = startX;
+                while (cx < width) {
+                    const x = getX(c + 0.5) + cx;
+                    const y = getY(cell.lat) + offsetY;
+                    const dx = Math.cos(angle) * len;
+                    const dy = Math.sin(angle) * len;
+                    ctx.beginPath();
+                    ctx.moveTo(x - dx, y - dy);
+                    ctx.lineTo(x + dx, y + dy);
+                    ctx.stroke();
+                    arrowsToDraw.push({ x: x + dx, y: y + dy, angle, color: 'rgba(255, 255, 255, 0.9)', scale: 0.5 * Math.sqrt(zoom) });
+                    cx += mapWidth;
+                }
+            }
+        }
+    }
+
     if (arrowsToDraw.length > 0) {
         for (const arrow of arrowsToDraw) {
              const arrowSize = 6 * arrow.scale;
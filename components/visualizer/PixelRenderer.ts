@@ -1,10 +1,11 @@
 
 import * as d3 from 'd3';
-import { SimulationResult } from '../../types';
+import { SimulationResult, ClimateScheme } from '../../types';
 import { d3ColorToRgb, hexToRgb } from '../../services/utils/helpers';
+import { CLASSIFICATION_SCHEMES } from '../../services/classification';
 import { 
-    tempScale, precipScale, precipScaleMonthly, insolationScale, 
-    coastScaleLand, coastScaleOcean, hadleyScale, 
+    tempScale, precipScale, precipScaleMonthly, insolationScale, insolationDomainMax, 
+    coastScaleLand, coastScaleOcean, hadleyScale, upliftScale, orographicScale, upwellingScale, seaIceScale, 
     oceanGradient, oceanBrightGradient, OCEAN_DISCRETE_COLORS, 
     landGradient, ELEVATION_COLORS, KOPPEN_COLORS 
 } from './constants';
@@ -13,10 +14,11 @@ export const drawPixels = (
     ctx: CanvasRenderingContext2D,
     data: SimulationResult,
     mode: string,
-    displayMonth: 'annual' | 0 | 6,
+    displayMonth: number | 'annual',
     gridCols: number,
     gridRows: number,
-    isGradient: boolean
+    isGradient: boolean,
+    climateScheme: ClimateScheme = 'koppen'
 ) => {
     const imgData = ctx.createImageData(gridCols, gridRows);
     const pixels = imgData.data;
@@ -28,6 +30,8 @@ export const drawPixels = (
         return arr[displayMonth];
     };
 
+    const insolationColor = insolationScale(mode === 'insolation' ? insolationDomainMax(data.grid) : 100);
+
     for (let i = 0; i < data.grid.length; i++) {
         const cell = data.grid[i];
         let r=0, g=0, b=0;
@@ -55,12 +59,17 @@ export const drawPixels = (
              }
 
         } else if (mode === 'climate') {
-            const hex = KOPPEN_COLORS[cell.climateClass.substring(0, 2)] || KOPPEN_COLORS[cell.climateClass.substring(0, 3)] || KOPPEN_COLORS[cell.climateClass] || '#CCCCCC';
-            [r,g,b] = hexToRgb(hex);
+            if (climateScheme === 'koppen') {
+                const hex = KOPPEN_COLORS[cell.climateClass.substring(0, 2)] || KOPPEN_COLORS[cell.climateClass.substring(0, 3)] || KOPPEN_COLORS[cell.climateClass] || '#CCCCCC';
+                [r,g,b] = hexToRgb(hex);
+            } else {
+                const code = cell.climateClasses[climateScheme] ?? '';
+                [r,g,b] = hexToRgb(CLASSIFICATION_SCHEMES[climateScheme].colors[code] || '#CCCCCC');
+            }
 
         } else if (mode === 'insolation') {
             const val = getVal(cell.insolation);
-            [r,g,b] = d3ColorToRgb(insolationScale(val));
+            [r,g,b] = d3ColorToRgb(insolationColor(val));
 
         } else if (mode === 'ocean_collision') {
              const val = cell.collisionMask;
@@ -75,18 +84,28 @@ export const drawPixels = (
              [r,g,b] = d3ColorToRgb(d3.interpolateRdBu(norm));
 
         } else if (mode === 'step4') {
-            // Placeholder pattern to avoid a black screen for an unimplemented Step 4.
+            const val = getVal(cell.uplift);
+            [r,g,b] = d3ColorToRgb(upliftScale(val));
+            if (!cell.isLand) { r*=0.5; g*=0.5; b*=0.5; }
+
+        } else if (mode === 'orographic') {
+            const windward = Math.min(1, Math.max(0, getVal(cell.orographicUplift) / 0.02));
+            const val = windward - getVal(cell.rainShadow);
+            [r,g,b] = d3ColorToRgb(orographicScale(val));
+            if (!cell.isLand) { r*=0.4; g*=0.4; b*=0.4; }
+
+        } else if (mode === 'upwelling') {
             if (cell.isLand) {
-                r = 60; g = 64; b = 72;
+                [r,g,b] = [60, 60, 60];
             } else {
-                r = 24; g = 38; b = 68;
+                [r,g,b] = d3ColorToRgb(upwellingScale(getVal(cell.upwelling)));
             }
-            const row = Math.floor(i / gridCols);
-            const col = i % gridCols;
-            if (((row + col) % 10) < 2) {
-                r = Math.min(255, r + 18);
-                g = Math.min(255, g + 18);
-                b = Math.min(255, b + 18);
+
+        } else if (mode === 'seaIce') {
+            if (cell.isLand) {
+                [r,g,b] = [60, 60, 60];
+            } else {
+                [r,g,b] = d3ColorToRgb(seaIceScale(getVal(cell.seaIceConcentration)));
             }
 
         } else if (mode === 'elevation' || mode === 'itcz_result' || mode === 'oceanCurrent') {
@@ -134,8 +153,8 @@ export const drawPixels = (
             } else {
                  r = 50; g = 150; b = 100;
             }
-            const meanU = getVal(cell.windU);
-            const meanV = getVal(cell.windV);
+            const meanU = getVal(cell.beltWindU);
+            const meanV = getVal(cell.beltWindV);
             const speed = Math.sqrt(meanU*meanU + meanV*meanV);
             const speedFactor = Math.min(1.0, speed / 15.0);
             r += speedFactor * 40; g += speedFactor * 40; b += speedFactor * 40;
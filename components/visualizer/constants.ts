@@ -1,12 +1,20 @@
 
 import * as d3 from 'd3';
 import { KOPPEN_COLORS, CURRENT_COLORS } from '../../constants';
+import { GridCell } from '../../types';
 
 // Scales
 export const tempScale = d3.scaleSequential(d3.interpolateRdYlBu).domain([313, 233]);
 export const precipScale = d3.scaleSequential(d3.interpolateBlues).domain([0, 3000]); 
 export const precipScaleMonthly = d3.scaleSequential(d3.interpolateBlues).domain([0, 400]); 
-export const insolationScale = d3.scaleSequential(d3.interpolateYlOrRd).domain([0, 500]); 
+
+// Insolation (W/m^2): the domain follows the brightest cell-month of the run, rounded up to 100 W/m^2
+export const insolationDomainMax = (grid: GridCell[]): number => {
+    let max = 0;
+    for (const cell of grid) for (const v of cell.insolation) if (v > max) max = v;
+    return Math.max(100, Math.ceil(max / 100) * 100);
+};
+export const insolationScale = (domainMax: number) => d3.scaleSequential(d3.interpolateYlOrRd).domain([0, domainMax]);
 
 export const coastScaleLand = d3.scaleLinear<string>()
     .domain([0, 2000])
@@ -20,6 +28,18 @@ export const coastScaleOcean = d3.scaleLinear<string>()
 
 export const hadleyScale = d3.scaleDiverging(d3.interpolateBrBG).domain([-2.5, 0, 2.5]);
 
+// Orographic vertical velocity (m/s): descent red, ascent blue
+export const upliftScale = d3.scaleDiverging(d3.interpolateRdBu).domain([-0.05, 0, 0.05]).clamp(true);
+
+// Orographic exposure: rain shadow (-1, brown) to windward uplift (+1, teal)
+export const orographicScale = d3.scaleDiverging(d3.interpolateBrBG).domain([-1, 0, 1]).clamp(true);
+
+// Upwelling index (0..1): calm water dark, strong upwelling bright teal
+export const upwellingScale = d3.scaleSequential(d3.interpolateGnBu).domain([0, 1]).clamp(true);
+
+// Sea-ice concentration (0..1): open water navy, the 15% extent edge blue-grey, closed pack white
+export const seaIceScale = d3.scaleLinear<string>().domain([0, 0.15, 1]).range(['#0b1d3a', '#4a6fa5', '#f8fafc']).clamp(true);
+
 export const heatMapScale = d3.scaleDiverging(d3.interpolateRdBu).domain([-1.0, 0, 1.0]);
 
 export const oceanGradient = d3.scaleLinear<string>()
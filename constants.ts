@@ -12,6 +12,9 @@ export const EARTH_PARAMS: PlanetParams = {
   perihelionAngle: 283.0, // Approx Jan 3 (relative to Vernal Equinox)
   isRetrograde: false, // Prograde by default
   orbitalPeriod: 8760, // 365 * 24
+  tidalLock: 'auto', // Earth spins far faster than it orbits
+  stellarTemperature: 5772,
+  companions: [], // Single star
 };
 
 export const EARTH_ATMOSPHERE: AtmosphereParams = {
@@ -37,6 +40,7 @@ export const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
   itczBaseLandRatio: 0.9,
   itczKernelAngle: 15.0,
   itczKernelMax: 60.0,
+  circulationScaling: 'empirical',
 
   // Wind Belts Tuning
   windHadleyWidthScale: 1.0,
@@ -57,6 +61,8 @@ export const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
   windOceanEcGapMode: 'manual',
   windOceanEcGapClampMin: 2.0,
   windOceanEcGapClampMax: 20.0,
+  windModel: 'belt',
+  windStationaryWaveGain: 1.0,
 
   // Ocean Currents
   oceanShelfAngle: 70.0, // Angle of incidence. Larger = Splits more easily (70 means even glancing blows split)
@@ -148,10 +154,104 @@ export const KOPPEN_COLORS: Record<string, string> = {
   'EF': '#FFFFFF',
   
   // Special
-  'H':  '#78909C',
   'Oc': '#000066',
 };
 
+export const TREWARTHA_COLORS: Record<string, string> = {
+  // A: Tropical
+  'Ar': '#0000FF',
+  'Aw': '#44AAFF',
+  'As': '#77BBFF',
+
+  // B: Dry
+  'BWh': '#FF0000',
+  'BWk': '#FF99AA',
+  'BSh': '#FFAA00',
+  'BSk': '#FFDD66',
+
+  // C: Subtropical
+  'Cs': '#FFFF00',
+  'Cw': '#AAFF00',
+  'Cf': '#00FF00',
+
+  // D: Temperate
+  'Do': '#66CC99',
+  'Dc': '#00AAAA',
+
+  // E: Boreal
+  'Eo': '#8866CC',
+  'Ec': '#660099',
+
+  // F: Polar
+  'Ft': '#B2B2B2',
+  'Fi': '#FFFFFF',
+
+  // Special
+  'Oc': '#000066',
+};
+
+// Holdridge life zones: latitudinal region (biotemperature) x humidity province (precipitation)
+export const HOLDRIDGE_COLORS: Record<string, string> = {
+  // Polar
+  'PD':   '#FFFFFF',
+
+  // Subpolar: Tundra
+  'TuD':  '#D9D9D9',
+  'TuM':  '#BDBDBD',
+  'TuW':  '#A3B5C4',
+  'TuR':  '#8AA3B8',
+
+  // Boreal
+  'BoD':  '#E8D8A8',
+  'BoDs': '#C8C48A',
+  'BoM':  '#6FA88A',
+  'BoW':  '#4A8C74',
+  'BoR':  '#2F6E5E',
+
+  // Cool Temperate
+  'CtD':  '#F0D890',
+  'CtDs': '#E0C070',
+  'CtSt': '#C8D070',
+  'CtM':  '#70B860',
+  'CtW':  '#409848',
+  'CtR':  '#207838',
+
+  // Warm Temperate / Subtropical
+  'WtD':  '#F8D070',
+  'WtDs': '#F0B050',
+  'WtTh': '#D8C040',
+  'WtDf': '#A8C838',
+  'WtM':  '#60B030',
+  'WtW':  '#309028',
+  'WtR':  '#107020',
+
+  // Tropical
+  'TrD':  '#FFC060',
+  'TrDs': '#F8A040',
+  'TrTh': '#E8A830',
+  'TrVd': '#C8B828',
+  'TrDf': '#90C020',
+  'TrM':  '#40A818',
+  'TrW':  '#108810',
+  'TrR':  '#006010',
+
+  // Special
+  'Oc':   '#000066',
+};
+
+export const WHITTAKER_COLORS: Record<string, string> = {
+  'Tundra':        '#C1E1DD',
+  'Boreal':        '#A5C790',
+  'TempGrassland': '#FCD57A',
+  'Woodland':      '#D16E3F',
+  'TempSeasonal':  '#97B669',
+  'TempRain':      '#75A95E',
+  'SubtropDesert': '#DCBB50',
+  'TropSeasonal':  '#A09700',
+  'TropRain':      '#317A22',
+  'Oc':            '#000066',
+};
+
 export const CURRENT_COLORS = {
   WARM: '#FF4400',
   COLD: '#0044FF',
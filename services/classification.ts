@@ -1,3 +1,335 @@
 
-// Logic removed per request.
-export const computeKoppen = () => {};
+import { GridCell, SimulationConfig, ClassificationSummary, ClimateScheme } from '../types';
+import { KOPPEN_COLORS, TREWARTHA_COLORS, HOLDRIDGE_COLORS, WHITTAKER_COLORS } from '../constants';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+// --- Köppen–Geiger Thresholds (Peel et al. 2007) ---
+const TROPICAL_MIN_COLD = 18; // °C, coldest month for A
+const TEMPERATE_MIN_COLD = 0; // °C, coldest month boundary C/D
+const POLAR_MAX_HOT = 10; // °C, warmest month below which the climate is E
+const HOT_ARID_MAT = 18; // °C, h/k split for B
+const HOT_SUMMER = 22; // °C, warmest month for 'a'
+const WARM_MONTHS_B = 4; // months >= 10°C for 'b'
+const EXTREME_COLD = -38; // °C, coldest month for 'd'
+const SEASONAL_SHARE = 0.7; // share of annual precipitation that makes a season dominant
+
+// --- Trewartha ---
+const TREWARTHA_DRY_MONTH = 60; // mm
+const TREWARTHA_OCEANIC_COLD = 0; // °C, coldest month for Do
+const TREWARTHA_BOREAL_OCEANIC_COLD = -10; // °C, coldest month for Eo
+
+// --- Holdridge ---
+const BIOTEMP_MAX = 30; // °C, months above (and below 0°C) count as 0
+const PET_PER_BIOTEMP = 58.93; // mm/yr per °C of biotemperature
+
+export interface ClimateInput {
+    tempC: number[]; // Monthly mean temperature (°C)
+    precip: number[]; // Monthly precipitation (mm)
+}
+
+export interface ClassificationSchemeDef {
+    label: string;
+    colors: Record<string, string>;
+    names?: Record<string, string>; // Optional display names for non-mnemonic codes
+    classify: (input: ClimateInput) => string;
+}
+
+// Summer = the cell's six warmest months, so eccentric orbits, high obliquity and tidally locked
+// rings get their own seasons instead of a fixed calendar half-year.
+const splitSeasons = (tempC: number[], precip: number[]) => {
+    const byTemp = tempC.map((_, m) => m).sort((a, b) => tempC[b] - tempC[a]);
+    const summerSet = new Set(byTemp.slice(0, 6));
+    const summer: number[] = [];
+    const winter: number[] = [];
+    for (let m = 0; m < 12; m++) (summerSet.has(m) ? summer : winter).push(precip[m]);
+    return { summer, winter };
+};
+
+/**
+ * Köppen–Geiger class for one cell from its 12-month climatology.
+ * @param tempC monthly mean temperature (°C)
+ * @param precip monthly precipitation (mm)
+ */
+export const classifyKoppen = (tempC: number[], precip: number[]): string => {
+    const tHot = Math.max(...tempC);
+    const tCold = Math.min(...tempC);
+    const mat = tempC.reduce((a, b) => a + b, 0) / 12;
+    const map = precip.reduce((a, b) => a + b, 0);
+
+    // Polar first: a warmest month below 10°C cannot be arid or temperate
+    if (tHot < POLAR_MAX_HOT) return tHot > 0 ? 'ET' : 'EF';
+
+    // Seasons (summer = warmer half-year of the cell)
+    const { summer, winter } = splitSeasons(tempC, precip);
+    const pSummer = summer.reduce((a, b) => a + b, 0);
+    const pWinter = winter.reduce((a, b) => a + b, 0);
+
+    // --- B: Aridity threshold ---
+    let pThreshold = 2 * mat + 14;
+    if (map > 0 && pWinter >= SEASONAL_SHARE * map) pThreshold = 2 * mat;
+    else if (map > 0 && pSummer >= SEASONAL_SHARE * map) pThreshold = 2 * mat + 28;
+    pThreshold = Math.max(0, pThreshold);
+
+    if (map < 10 * pThreshold) {
+        const kind = map < 5 * pThreshold ? 'W' : 'S';
+        return `B${kind}${mat >= HOT_ARID_MAT ? 'h' : 'k'}`;
+    }
+
+    const pDry = Math.min(...precip);
+    const pSummerDry = Math.min(...summer);
+    const pWinterDry = Math.min(...winter);
+    const pSummerWet = Math.max(...summer);
+    const pWinterWet = Math.max(...winter);
+
+    // --- A: Tropical ---
+    if (tCold >= TROPICAL_MIN_COLD) {
+        if (pDry >= 60) return 'Af';
+        if (pDry >= 100 - map / 25) return 'Am';
+        return pSummerDry < pWinterDry ? 'As' : 'Aw';
+    }
+
+    // --- C / D: Precipitation seasonality ---
+    let season = 'f';
+    if (pSummerDry < 40 && pSummerDry < pWinterWet / 3) season = 's';
+    else if (pWinterDry < pSummerWet / 10) season = 'w';
+
+    // --- Temperature qualifier ---
+    const warmMonths = tempC.filter(t => t >= 10).length;
+    let heat: string;
+    if (tHot >= HOT_SUMMER) heat = 'a';
+    else if (warmMonths >= WARM_MONTHS_B) heat = 'b';
+    else heat = 'c';
+
+    if (tCold > TEMPERATE_MIN_COLD) return `C${season}${heat}`;
+    if (heat === 'c' && tCold < EXTREME_COLD) heat = 'd';
+    return `D${season}${heat}`;
+};
+
+/**
+ * Trewartha class (1980 revision) from the number of months at or above 10°C.
+ */
+export const classifyTrewartha = (tempC: number[], precip: number[]): string => {
+    const tHot = Math.max(...tempC);
+    const tCold = Math.min(...tempC);
+    const mat = tempC.reduce((a, b) => a + b, 0) / 12;
+    const mapCm = precip.reduce((a, b) => a + b, 0) / 10;
+    const warmMonths = tempC.filter(t => t >= 10).length;
+
+    // F: Polar
+    if (warmMonths === 0) return tHot > 0 ? 'Ft' : 'Fi';
+
+    // B: Dry, R = 2.3T - 0.64Pw + 41 (cm), Pw = winter share of precipitation in %
+    const { summer, winter } = splitSeasons(tempC, precip);
+    const pWinter = winter.reduce((a, b) => a + b, 0);
+    const pwPercent = mapCm > 0 ? (pWinter / 10) / mapCm * 100 : 50;
+    const threshold = Math.max(0, 2.3 * mat - 0.64 * pwPercent + 41);
+    if (mapCm < threshold) {
+        const kind = mapCm < threshold / 2 ? 'W' : 'S';
+        return `B${kind}${warmMonths >= 8 ? 'h' : 'k'}`;
+    }
+
+    const dryMonths = precip.filter(p => p < TREWARTHA_DRY_MONTH).length;
+    const pSummerDry = Math.min(...summer);
+    const pWinterDry = Math.min(...winter);
+    const pSummerWet = Math.max(...summer);
+    const pWinterWet = Math.max(...winter);
+
+    // A: Tropical
+    if (tCold >= 18) {
+        if (dryMonths <= 2) return 'Ar';
+        return pSummerDry < pWinterDry ? 'As' : 'Aw';
+    }
+
+    // C: Subtropical
+    if (warmMonths >= 8) {
+        if (pSummerDry < 30 && pSummerDry < pWinterWet / 3) return 'Cs';
+        if (pWinterDry < pSummerWet / 10) return 'Cw';
+        return 'Cf';
+    }
+
+    // D: Temperate / E: Boreal
+    if (warmMonths >= 4) return tCold > TREWARTHA_OCEANIC_COLD ? 'Do' : 'Dc';
+    return tCold > TREWARTHA_BOREAL_OCEANIC_COLD ? 'Eo' : 'Ec';
+};
+
+/**
+ * Holdridge life zone from biotemperature and annual precipitation.
+ * The humidity provinces follow the log2 precipitation steps of the Holdridge triangle (125, 250, 500 ... mm).
+ */
+export const classifyHoldridge = (tempC: number[], precip: number[]): string => {
+    const bioTemp = tempC.reduce((a, t) => a + (t > 0 && t < BIOTEMP_MAX ? t : 0), 0) / 12;
+    const map = precip.reduce((a, b) => a + b, 0);
+
+    // Very arid regardless of the belt when potential evapotranspiration exceeds 16x precipitation
+    const petRatio = map > 0 ? bioTemp * PET_PER_BIOTEMP / map : Infinity;
+
+    if (bioTemp < 1.5) return 'PD';
+    if (bioTemp < 3) {
+        if (map < 125) return 'TuD';
+        if (map < 250) return 'TuM';
+        if (map < 500) return 'TuW';
+        return 'TuR';
+    }
+    if (bioTemp < 6) {
+        if (map < 125 || petRatio > 16) return 'BoD';
+        if (map < 250) return 'BoDs';
+        if (map < 500) return 'BoM';
+        if (map < 1000) return 'BoW';
+        return 'BoR';
+    }
+    if (bioTemp < 12) {
+        if (map < 125 || petRatio > 16) return 'CtD';
+        if (map < 250) return 'CtDs';
+        if (map < 500) return 'CtSt';
+        if (map < 1000) return 'CtM';
+        if (map < 2000) return 'CtW';
+        return 'CtR';
+    }
+    if (bioTemp < 24) {
+        if (map < 125 || petRatio > 16) return 'WtD';
+        if (map < 250) return 'WtDs';
+        if (map < 500) return 'WtTh';
+        if (map < 1000) return 'WtDf';
+        if (map < 2000) return 'WtM';
+        if (map < 4000) return 'WtW';
+        return 'WtR';
+    }
+    if (map < 125 || petRatio > 16) return 'TrD';
+    if (map < 250) return 'TrDs';
+    if (map < 500) return 'TrTh';
+    if (map < 1000) return 'TrVd';
+    if (map < 2000) return 'TrDf';
+    if (map < 4000) return 'TrM';
+    if (map < 8000) return 'TrW';
+    return 'TrR';
+};
+
+/**
+ * Whittaker biome from annual mean temperature and annual precipitation.
+ */
+export const classifyWhittaker = (tempC: number[], precip: number[]): string => {
+    const mat = tempC.reduce((a, b) => a + b, 0) / 12;
+    const map = precip.reduce((a, b) => a + b, 0);
+
+    if (mat < -5) return 'Tundra';
+    if (mat < 3) return map < 250 ? 'Tundra' : 'Boreal';
+    if (mat < 20) {
+        if (map < 300) return 'TempGrassland';
+        if (map < 700) return 'Woodland';
+        if (map < 2000 || mat < 5) return 'TempSeasonal';
+        return 'TempRain';
+    }
+    if (map < 500) return 'SubtropDesert';
+    if (map < 2500) return 'TropSeasonal';
+    return 'TropRain';
+};
+
+export const CLASSIFICATION_SCHEMES: Record<ClimateScheme, ClassificationSchemeDef> = {
+    koppen: {
+        label: 'ケッペン・ガイガー',
+        colors: KOPPEN_COLORS,
+        classify: ({ tempC, precip }) => classifyKoppen(tempC, precip)
+    },
+    trewartha: {
+        label: 'トレワーサ',
+        colors: TREWARTHA_COLORS,
+        classify: ({ tempC, precip }) => classifyTrewartha(tempC, precip)
+    },
+    holdridge: {
+        label: 'ホールドリッジ',
+        colors: HOLDRIDGE_COLORS,
+        names: {
+            PD: '極地砂漠・氷原',
+            TuD: '乾燥ツンドラ', TuM: '湿潤ツンドラ', TuW: '多湿ツンドラ', TuR: '雨ツンドラ',
+            BoD: '亜寒帯砂漠', BoDs: '亜寒帯乾燥低木林', BoM: '亜寒帯湿潤林', BoW: '亜寒帯多湿林', BoR: '亜寒帯多雨林',
+            CtD: '冷温帯砂漠', CtDs: '冷温帯砂漠低木林', CtSt: '冷温帯ステップ', CtM: '冷温帯湿潤林', CtW: '冷温帯多湿林', CtR: '冷温帯多雨林',
+            WtD: '暖温帯砂漠', WtDs: '暖温帯砂漠低木林', WtTh: '暖温帯有刺林', WtDf: '暖温帯乾燥林', WtM: '暖温帯湿潤林', WtW: '暖温帯多湿林', WtR: '暖温帯多雨林',
+            TrD: '熱帯砂漠', TrDs: '熱帯砂漠低木林', TrTh: '熱帯有刺林', TrVd: '熱帯極乾燥林', TrDf: '熱帯乾燥林', TrM: '熱帯湿潤林', TrW: '熱帯多湿林', TrR: '熱帯多雨林',
+            Oc: '海洋'
+        },
+        classify: ({ tempC, precip }) => classifyHoldridge(tempC, precip)
+    },
+    whittaker: {
+        label: 'ホイッタカー (バイオーム)',
+        colors: WHITTAKER_COLORS,
+        names: {
+            Tundra: 'ツンドラ',
+            Boreal: '亜寒帯林 (タイガ)',
+            TempGrassland: '温帯草原・砂漠',
+            Woodland: '疎林・低木林',
+            TempSeasonal: '温帯季節林',
+            TempRain: '温帯雨林',
+            SubtropDesert: '亜熱帯砂漠',
+            TropSeasonal: '熱帯季節林・サバンナ',
+            TropRain: '熱帯雨林',
+            Oc: '海洋'
+        },
+        classify: ({ tempC, precip }) => classifyWhittaker(tempC, precip)
+    }
+};
+
+/**
+ * Runs one scheme over all land cells, writing cell.climateClasses[scheme].
+ * Returns the share of land area (cos-weighted) occupied by each class.
+ */
+const runScheme = (grid: GridCell[], config: SimulationConfig, scheme: ClimateScheme): Record<string, number> => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const def = CLASSIFICATION_SCHEMES[scheme];
+
+    const areaByClass: Record<string, number> = {};
+    let landArea = 0;
+
+    for (let r = 0; r < rows; r++) {
+        const w = Math.cos(toRad(grid[r * cols].lat));
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            if (!cell.isLand) {
+                cell.climateClasses[scheme] = 'Oc';
+                continue;
+            }
+
+            const code = def.classify({
+                tempC: cell.temp.map(t => t - 273.15),
+                precip: cell.precip
+            });
+            cell.climateClasses[scheme] = code;
+
+            areaByClass[code] = (areaByClass[code] || 0) + w;
+            landArea += w;
+        }
+    }
+
+    const summary: Record<string, number> = {};
+    Object.keys(areaByClass).sort().forEach(code => {
+        summary[code] = landArea > 0 ? areaByClass[code] / landArea : 0;
+    });
+    return summary;
+};
+
+/**
+ * Step 7: Köppen–Geiger Climate Classification
+ *
+ * Classifies every land cell from its monthly temp (K) and precip (mm);
+ * ocean stays 'Oc'. High ground is classed thermally: cell.temp already
+ * carries the lapse-rate cooling, so no separate elevation class is needed.
+ * Returns the share of land area (cos-weighted) occupied by each class.
+ */
+export const computeKoppen = (grid: GridCell[], config: SimulationConfig): Record<string, number> => {
+    const summary = runScheme(grid, config, 'koppen');
+    for (const cell of grid) cell.climateClass = cell.climateClasses.koppen ?? cell.climateClass;
+    return summary;
+};
+
+/**
+ * Step 7: All Classification Schemes
+ *
+ * Köppen (also written to cell.climateClass) plus the alternative lenses in CLASSIFICATION_SCHEMES.
+ */
+export const computeClassifications = (grid: GridCell[], config: SimulationConfig): ClassificationSummary => ({
+    koppen: computeKoppen(grid, config),
+    trewartha: runScheme(grid, config, 'trewartha'),
+    holdridge: runScheme(grid, config, 'holdridge'),
+    whittaker: runScheme(grid, config, 'whittaker')
+});
@@ -1,9 +1,18 @@
 
 import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, SimulationResult, PhysicsParams } from '../types';
+import { calculateInsolation } from './physics/insolation';
 import { computeCirculation } from './physics/circulation';
 import { computeWindBelts } from './physics/windBelts';
 import { computeOceanCurrents } from './physics/ocean';
+import { computeOceanCurrentField } from './physics/oceanCurrentField';
+import { computeUpwelling } from './physics/upwelling';
+import { computeCoastalOceanField } from './physics/coastalOcean';
 import { computeAirflowDetailed } from './physics/airflow';
+import { computeOrographicPrecip } from './physics/orography';
+import { solveIceAlbedo } from './physics/iceAlbedo';
+import { computeHydrology } from './physics/hydrology';
+import { computeClassifications } from './classification';
+import { summarizeTidalLock } from './physics/tidalLock';
 export { initializeGrid } from './geography';
 
 export const runSimulation = async (
@@ -22,28 +31,51 @@ export const runSimulation = async (
       // Clear Data
       cell.insolation = new Array(12).fill(0);
       cell.tempZonal = new Array(12).fill(0);
-      cell.oceanCurrent = 0;
+      cell.oceanCurrent = new Array(12).fill(0);
+      cell.oceanCurrentU = new Array(12).fill(0);
+      cell.oceanCurrentV = new Array(12).fill(0);
+      cell.upwelling = new Array(12).fill(0);
+      cell.coastalCurrent = new Array(12).fill(0);
+      cell.coastalUpwelling = new Array(12).fill(0);
       cell.temp = new Array(12).fill(0);
+      cell.iceCover = 0;
+      cell.seaIceThickness = new Array(12).fill(0);
+      cell.seaIceConcentration = new Array(12).fill(0);
       cell.pressure = new Array(12).fill(1013);
+      cell.thermalPressure = new Array(12).fill(0);
       cell.windU = new Array(12).fill(0);
       cell.windV = new Array(12).fill(0);
+      cell.beltWindU = new Array(12).fill(0);
+      cell.beltWindV = new Array(12).fill(0);
       cell.uplift = new Array(12).fill(0);
+      cell.orographicUplift = new Array(12).fill(0);
+      cell.rainShadow = new Array(12).fill(0);
       cell.hadleyCell = new Array(12).fill(0);
       cell.moisture = new Array(12).fill(0);
       cell.precip = new Array(12).fill(0);
       cell.heatMapVal = 0; 
       cell.collisionMask = 0; 
       cell.climateClass = cell.isLand ? '?' : 'Oc';
+      cell.climateClasses = {};
   }
 
   await new Promise(r => setTimeout(r, 50));
 
+  // --- Step 0.5: Orbital Insolation ---
+  onProgress(15, "Step 0.5: Orbital Insolation...", 'insolation');
+  const insolationRes = calculateInsolation(grid, planet, config);
+
   // --- Step 1: ITCZ & Circulation ---
   onProgress(20, "Step 1: Calculating ITCZ...", 'step1');
   const circulationRes = computeCirculation(grid, planet, atm, phys, config);
   
   await new Promise(r => setTimeout(r, 50));
 
+  // First-guess Step 5 (one EBM + sea-ice pass, no currents or upwelling yet): Step 2 builds the seasonal
+  // pressure cells from its land-sea contrast and Step 3 sees where the sea ice walls are
+  const firstGuessTemp = solveIceAlbedo(grid, planet, atm, config, undefined, 1);
+  await new Promise(r => setTimeout(r, 50));
+
   // --- Step 2: Wind Belts ---
   onProgress(40, "Step 2: Calculating Wind Belts...", 'step2');
   const windRes = computeWindBelts(grid, circulationRes, planet, atm, phys, config);
@@ -57,34 +89,75 @@ export const runSimulation = async (
   onProgress(80, "Step 3.1: Ocean Currents...", 'step3');
   // Unit G: Pass derived gap for alignment
   const physForOcean = { ...phys, oceanEcLatGap: windRes.oceanEcLatGapDerived };
-  const oceanRes = computeOceanCurrents(grid, circulationRes.itczLines, physForOcean, config, planet);
+  const oceanRes = computeOceanCurrents(grid, circulationRes.itczLines, physForOcean, config, planet, undefined, windRes.monthlyCellLayouts);
+
+  // Step 3.2: Rasterize streamlines into the monthly SST anomaly consumed by Steps 5 and 6
+  computeOceanCurrentField(grid, oceanRes.streamlines, circulationRes.itczLines, planet, config);
+
+  // Step 3.3: Coastal upwelling & cold tongue from the Step 2 winds (cooling term for Step 5)
+  onProgress(85, "Step 3.3: Coastal Upwelling...", 'step3');
+  const upwellingRes = computeUpwelling(grid, planet, config);
+
+  // Step 3.4: What coastal land sees of the neighbouring sea (looked up by Steps 5 and 6)
+  computeCoastalOceanField(grid, config);
 
   await new Promise(r => setTimeout(r, 50));
 
+  // --- Step 5: Thermodynamics (Energy Balance) ---
+  // Runs before Step 4: the monsoon refinement needs the land-sea temperature contrast.
+  onProgress(88, "Step 5: Energy Balance...", 'step5');
+  // 5.1 Zonal EBM + 5.2 Surface temperature, iterated with 5.3 ice-albedo feedback and 5.4 sea ice
+  const tempRes = solveIceAlbedo(grid, planet, atm, config, firstGuessTemp);
+  await new Promise(r => setTimeout(r, 50));
+
   // --- Step 4: Airflow Detailed ---
-  onProgress(95, "Step 4: Refining Airflow...", 'step4');
-  computeAirflowDetailed(grid, circulationRes, windRes, oceanRes, planet, atm, phys, config);
+  onProgress(93, "Step 4: Refining Airflow...", 'step4');
+  const airflowRes = computeAirflowDetailed(grid, windRes, planet, atm, phys, config);
+  await new Promise(r => setTimeout(r, 50));
+
+  // --- Step 4.2: Orographic Precipitation Field (uplift & rain shadow) ---
+  onProgress(95, "Step 4.2: Orographic Uplift...", 'step4');
+  const orographyRes = computeOrographicPrecip(grid, planet, config);
   await new Promise(r => setTimeout(r, 50));
 
+  // --- Step 6: Hydrology (Moisture & Precipitation) ---
+  onProgress(97, "Step 6: Moisture Transport...", 'precip');
+  const hydroRes = computeHydrology(grid, circulationRes, planet, atm, phys, config);
+  await new Promise(r => setTimeout(r, 50));
+
+  // --- Step 7: Climate Classification ---
+  onProgress(99, "Step 7: Climate Classification...", 'climate');
+  const classificationRes = computeClassifications(grid, config);
+
   onProgress(100, "Ready", undefined);
   
   return {
       grid,
-      globalTemp: 0,
-      maxTemp: 0,
-      minTemp: 0,
+      globalTemp: tempRes.globalTemp,
+      maxTemp: tempRes.maxTemp,
+      minTemp: tempRes.minTemp,
       hadleyWidth: circulationRes.hadleyWidth, 
       cellCount: circulationRes.cellCount,
       itczLats: new Array(12).fill(0), 
       itczLines: circulationRes.itczLines,
+      insolation: insolationRes,
       wind: windRes,
+      upwelling: upwellingRes,
+      airflow: airflowRes,
+      orography: orographyRes,
+      thermo: tempRes.thermo,
+      ice: tempRes.ice,
+      seaIce: tempRes.seaIce,
+      tidalLock: summarizeTidalLock(grid, planet, circulationRes.convectiveCenter),
+      hydro: hydroRes,
+      classification: classificationRes,
       oceanStreamlines: oceanRes.streamlines,
       impactPoints: oceanRes.impacts,
       diagnostics: oceanRes.diagnostics,
       implementationStatus: {
-          thermoModel: 'not_implemented',
-          hydroModel: 'not_implemented',
-          climateClassification: 'not_implemented'
+          thermoModel: 'implemented',
+          hydroModel: 'implemented',
+          climateClassification: 'implemented'
       }
   };
 };
@@ -2,19 +2,26 @@
 import JSZip from 'jszip';
 // Added missing d3 import
 import * as d3 from 'd3';
-import { SimulationResult, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams } from '../types';
-import { KOPPEN_COLORS } from '../constants';
+import { SimulationResult, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, ClimateScheme } from '../types';
+import { CLASSIFICATION_SCHEMES } from './classification';
 import { hexToRgb } from './utils/helpers';
 import { drawPixels } from '../components/visualizer/PixelRenderer';
 import { drawOverlays } from '../components/visualizer/OverlayRenderer';
 import { 
-    tempScale, precipScale, precipScaleMonthly, insolationScale, 
-    coastScaleLand, coastScaleOcean, 
+    tempScale, precipScale, precipScaleMonthly, insolationScale, insolationDomainMax, 
+    coastScaleLand, coastScaleOcean, upliftScale, orographicScale, upwellingScale, seaIceScale, 
     oceanGradient, landGradient
 } from '../components/visualizer/constants';
 
 // Draw Legend onto Canvas (Optimized for Exporter)
-const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number, height: number, displayMonth: number | 'annual') => {
+const CLIMATE_SCHEME_TITLES: Record<ClimateScheme, string> = {
+    koppen: 'Köppen Climate Classification',
+    trewartha: 'Trewartha Climate Classification',
+    holdridge: 'Holdridge Life Zones',
+    whittaker: 'Whittaker Biomes'
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number, height: number, displayMonth: number | 'annual', climateScheme: ClimateScheme = 'koppen', insolationMax: number = 500) => {
     const padding = 20;
     const boxWidth = 320; 
     const x = width - boxWidth - padding;
@@ -38,17 +45,21 @@ const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number,
         'wind': 'Zonal Wind & Pressure',
         'wind_belts': 'Atmospheric Circulation Belts',
         'ocean_collision': 'Oceanic Collision Field',
-        'oceanCurrent': 'Global Ocean Currents'
+        'oceanCurrent': 'Global Ocean Currents',
+        'upwelling': 'Coastal Upwelling & Cold Tongue',
+        'seaIce': 'Sea Ice Concentration',
+        'step4': 'Orographic Uplift & Refined Wind',
+        'orographic': 'Orographic Precipitation & Rain Shadow'
     };
 
-    const title = modeLabels[mode] || mode;
+    const title = mode === 'climate' ? CLIMATE_SCHEME_TITLES[climateScheme] : (modeLabels[mode] || mode);
     const isMonthly = displayMonth !== 'annual';
     const monthLabel = displayMonth === 0 ? 'January' : (displayMonth === 6 ? 'July' : (isMonthly ? `Month ${displayMonth + 1}` : 'Annual Mean'));
 
     // Dynamic box height based on mode
     let boxHeight = 160;
     if (mode === 'climate') boxHeight = 480;
-    if (mode === 'oceanCurrent') boxHeight = 220;
+    if (mode === 'oceanCurrent') boxHeight = 240;
 
     ctx.beginPath();
     ctx.roundRect(x, y, boxWidth, boxHeight, 12);
@@ -119,13 +130,21 @@ const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number,
         drawGradient(landGradient, ['0m', '1km', '2km+'], 95, 'Land Elevation');
         drawGradient(oceanGradient, ['-8km', '-4km', '0m'], 145, 'Ocean Depth');
     } else if (mode === 'insolation') {
-        drawGradient(insolationScale, ['0', '250', '500 W/m²'], 95);
+        drawGradient(insolationScale(insolationMax), ['0', `${insolationMax / 2}`, `${insolationMax} W/m²`], 95);
     } else if (mode === 'itcz_heatmap') {
         const itczScale = d3.scaleDiverging(d3.interpolateRdBu).domain([-1, 0, 1]);
         drawGradient(itczScale, ['Ocean (-1)', 'Coast', 'Land (+1)'], 95);
     } else if (mode === 'wind' || mode === 'wind_belts') {
         const pScale = d3.scaleDiverging(d3.interpolateRdBu).domain([990, 1013, 1030]);
         drawGradient(pScale, ['Low P', '1013', 'High P'], 95, 'Air Pressure (hPa)');
+    } else if (mode === 'step4') {
+        drawGradient(upliftScale, ['Descent -5 cm/s', '0', 'Ascent +5 cm/s'], 95, 'Vertical Velocity');
+    } else if (mode === 'orographic') {
+        drawGradient(orographicScale, ['Rain Shadow', 'Neutral', 'Windward'], 95, 'Orographic Exposure');
+    } else if (mode === 'upwelling') {
+        drawGradient(upwellingScale, ['None', '0.5', 'Strong (1.0)'], 95, 'Upwelling Index');
+    } else if (mode === 'seaIce') {
+        drawGradient(seaIceScale, ['Open Water', '15%', 'Pack Ice'], 95, 'Sea Ice Concentration');
     } else if (mode === 'oceanCurrent') {
         const startY = 85;
         ctx.font = '10px sans-serif';
@@ -143,15 +162,22 @@ const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number,
         ctx.fillStyle = '#d1d5db';
         ctx.fillText('EC Coastal Impact (Cold)', x + 40, startY + 30);
 
+        // Upwelling cells
+        ctx.fillStyle = '#2dd4bf';
+        ctx.fillRect(x + 20, startY + 42, 8, 8);
+        ctx.fillStyle = '#d1d5db';
+        ctx.fillText('Upwelling (Step 3.3)', x + 40, startY + 50);
+
         // Flow directions
-        drawGradient(d3.scaleLinear<string>().domain([0, 1]).range(['#000000', '#ff0000']), ['Slow', 'Fast'], startY + 70, 'Warm Current (Leaving Tropics)');
-        drawGradient(d3.scaleLinear<string>().domain([0, 1]).range(['#000000', '#0088ff']), ['Slow', 'Fast'], startY + 120, 'Cold Current (Approaching Tropics)');
+        drawGradient(d3.scaleLinear<string>().domain([0, 1]).range(['#000000', '#ff0000']), ['Slow', 'Fast'], startY + 90, 'Warm Current (Leaving Tropics)');
+        drawGradient(d3.scaleLinear<string>().domain([0, 1]).range(['#000000', '#0088ff']), ['Slow', 'Fast'], startY + 140, 'Cold Current (Approaching Tropics)');
     } else if (mode === 'climate') {
         const startY = 85;
         const itemWidth = 90;
         const itemHeight = 22;
         const cols = 3;
-        const classes = Object.keys(KOPPEN_COLORS);
+        const colors = CLASSIFICATION_SCHEMES[climateScheme].colors;
+        const classes = Object.keys(colors);
         
         ctx.font = '9px sans-serif';
         classes.forEach((code, i) => {
@@ -160,7 +186,7 @@ const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number,
             const curX = x + 20 + col * itemWidth;
             const curY = y + startY + row * itemHeight;
             
-            ctx.fillStyle = KOPPEN_COLORS[code];
+            ctx.fillStyle = colors[code];
             ctx.fillRect(curX, curY, 12, 12);
             ctx.strokeStyle = 'rgba(255,255,255,0.2)';
             ctx.strokeRect(curX, curY, 12, 12);
@@ -179,7 +205,7 @@ const drawLegend = (ctx: CanvasRenderingContext2D, mode: string, width: number,
 };
 
 // Generate Image Blob matching UI rendering
-const generateMapBlob = async (data: SimulationResult, mode: string, width: number, height: number, displayMonth: number | 'annual', phys: PhysicsParams): Promise<Blob | null> => {
+const generateMapBlob = async (data: SimulationResult, mode: string, width: number, height: number, displayMonth: number | 'annual', phys: PhysicsParams, climateScheme: ClimateScheme = 'koppen'): Promise<Blob | null> => {
     const lats = new Set(data.grid.map(c => c.lat));
     const gridRows = lats.size;
     const gridCols = data.grid.length / gridRows;
@@ -192,7 +218,7 @@ const generateMapBlob = async (data: SimulationResult, mode: string, width: numb
     if (!bufferCtx) return null;
 
     // Use the exact same pixel rendering as UI
-    drawPixels(bufferCtx, data, mode, displayMonth as any, gridCols, gridRows, true);
+    drawPixels(bufferCtx, data, mode, displayMonth, gridCols, gridRows, true, climateScheme);
 
     // 2. Create high-res target canvas
     const canvas = document.createElement('canvas');
@@ -212,11 +238,11 @@ const generateMapBlob = async (data: SimulationResult, mode: string, width: numb
     // 3. Draw Overlays (Vector data)
     // We pass zoom=1.0 and offsets=0 to draw the full global map
     drawOverlays(
-        ctx, data, mode, width, height, 1.0, 0, 0, width, gridCols, gridRows, displayMonth as any, phys
+        ctx, data, mode, width, height, 1.0, 0, 0, width, gridCols, gridRows, displayMonth, phys
     );
 
     // 4. Draw Comprehensive Legend
-    drawLegend(ctx, mode, width, height, displayMonth);
+    drawLegend(ctx, mode, width, height, displayMonth, climateScheme, insolationDomainMax(data.grid));
 
     return new Promise(resolve => canvas.toBlob(blob => resolve(blob), 'image/png', 1.0));
 };
@@ -237,6 +263,9 @@ export const exportAllData = async (
         oceanEcLatGap: result.wind?.oceanEcLatGapDerived ?? phys.oceanEcLatGap 
     };
 
+    // Default to July (6) for month-specific visualizations (maps and the seasonal cell boundaries)
+    const targetMonth = 6;
+
     // 1. Config & Metadata
     const metaData = {
         exportedAt: new Date().toISOString(),
@@ -248,39 +277,68 @@ export const exportAllData = async (
         globalStats: {
             hadleyWidth: result.hadleyWidth,
             cellCount: result.cellCount,
-            globalTemp: result.globalTemp
-        }
+            globalTemp: result.globalTemp,
+            maxTemp: result.maxTemp,
+            minTemp: result.minTemp
+        },
+        insolation: result.insolation,
+        windBelts: result.wind && {
+            hadleyEdgeDeg: result.wind.hadleyEdgeDeg,
+            cellBoundariesDeg: result.wind.cellBoundariesDeg,
+            gradientReversed: result.wind.gradientReversed,
+            exportedMonth: targetMonth,
+            monthCellBoundariesDeg: result.wind.monthlyCellBoundariesDeg[targetMonth],
+            monthlyCellBoundariesDeg: result.wind.monthlyCellBoundariesDeg
+        },
+        airflow: result.airflow,
+        upwelling: result.upwelling,
+        orography: result.orography,
+        thermo: result.thermo,
+        ice: result.ice,
+        seaIce: result.seaIce,
+        tidalLock: result.tidalLock,
+        hydro: result.hydro,
+        classification: result.classification
     };
     zip.file("Simulation_Metadata.json", JSON.stringify(metaData, null, 2));
     
     // 2. Datasets
-    const geoCsv = ["lat,lon,elevation_m,isLand,dist_coast_km,itcz_heatmap_val,collision_mask,climate"];
+    const geoCsv = ["lat,lon,elevation_m,isLand,dist_coast_km,itcz_heatmap_val,collision_mask,ocean_current,upwelling,sea_ice_concentration,sea_ice_max_thickness_m,uplift_ms,orographic_uplift_ms,rain_shadow,climate,trewartha,holdridge,whittaker"];
     result.grid.forEach(c => {
-        geoCsv.push(`${c.lat.toFixed(3)},${c.lon.toFixed(3)},${c.elevation.toFixed(1)},${c.isLand?1:0},${c.distCoast.toFixed(1)},${c.heatMapVal.toFixed(4)},${c.collisionMask.toFixed(1)},${c.climateClass}`);
+        geoCsv.push(`${c.lat.toFixed(3)},${c.lon.toFixed(3)},${c.elevation.toFixed(1)},${c.isLand?1:0},${c.distCoast.toFixed(1)},${c.heatMapVal.toFixed(4)},${c.collisionMask.toFixed(1)},${(c.oceanCurrent.reduce((a, b) => a + b, 0) / 12).toFixed(3)},${(c.upwelling.reduce((a, b) => a + b, 0) / 12).toFixed(3)},${(c.seaIceConcentration.reduce((a, b) => a + b, 0) / 12).toFixed(3)},${Math.max(...c.seaIceThickness).toFixed(2)},${(c.uplift.reduce((a, b) => a + b, 0) / 12).toFixed(4)},${(c.orographicUplift.reduce((a, b) => a + b, 0) / 12).toFixed(4)},${(c.rainShadow.reduce((a, b) => a + b, 0) / 12).toFixed(3)},${c.climateClass},${c.climateClasses.trewartha ?? ''},${c.climateClasses.holdridge ?? ''},${c.climateClasses.whittaker ?? ''}`);
     });
     zip.file("Planetary_Geography.csv", geoCsv.join("\n"));
 
     // 3. High-Resolution Map Images
-    const pipelineExports = [
+    const pipelineExports: { mode: string, name: string, scheme?: ClimateScheme }[] = [
         { mode: 'elevation', name: 'Step0_Geography_Elevation' },
         { mode: 'distCoast', name: 'Step0_Geography_DistCoast' },
+        { mode: 'insolation', name: 'Step0_Insolation' },
         { mode: 'itcz_heatmap', name: 'Step1_ITCZ_Heatmap' },
         { mode: 'itcz_result', name: 'Step1_ITCZ_Lines' },
         { mode: 'wind', name: 'Step2_Atmosphere_Pressure_Wind' },
         { mode: 'wind_belts', name: 'Step2_Atmosphere_Belts' },
         { mode: 'ocean_collision', name: 'Step3_Ocean_Collision' },
-        { mode: 'oceanCurrent', name: 'Step3_Ocean_Currents' }
+        { mode: 'oceanCurrent', name: 'Step3_Ocean_Currents' },
+        { mode: 'upwelling', name: 'Step3_Ocean_Upwelling' },
+        { mode: 'step4', name: 'Step4_Airflow_Uplift' },
+        { mode: 'orographic', name: 'Step4_Orographic_RainShadow' },
+        { mode: 'tempZonal', name: 'Step5_Temperature_Zonal' },
+        { mode: 'temp', name: 'Step5_Temperature_Surface' },
+        { mode: 'seaIce', name: 'Step5_Sea_Ice' },
+        { mode: 'precip', name: 'Step6_Precipitation' },
+        { mode: 'climate', name: 'Step7_Climate_Koppen', scheme: 'koppen' },
+        { mode: 'climate', name: 'Step7_Climate_Trewartha', scheme: 'trewartha' },
+        { mode: 'climate', name: 'Step7_Climate_Holdridge', scheme: 'holdridge' },
+        { mode: 'climate', name: 'Step7_Climate_Whittaker', scheme: 'whittaker' }
     ];
 
     // Export high-res 4K-ish aspect
     const imgWidth = 3840;
     const imgHeight = 1920;
     
-    // Default to July (6) for month-specific visualizations
-    const targetMonth = 6; 
-
     for (const exp of pipelineExports) {
-        const blob = await generateMapBlob(result, exp.mode, imgWidth, imgHeight, targetMonth, effectivePhys);
+        const blob = await generateMapBlob(result, exp.mode, imgWidth, imgHeight, targetMonth, effectivePhys, exp.scheme);
         if (blob) {
             zip.file(`${exp.name}.png`, blob);
         }
@@ -293,16 +293,30 @@ export const initializeGrid = (
             collisionMask: 0,
             tempZonal: new Array(12).fill(0),
             temp: new Array(12).fill(0),
+            iceCover: 0,
+            seaIceThickness: new Array(12).fill(0),
+            seaIceConcentration: new Array(12).fill(0),
             precip: new Array(12).fill(0),
             insolation: new Array(12).fill(0),
             moisture: new Array(12).fill(0),
             windU: new Array(12).fill(0),
             windV: new Array(12).fill(0),
+            beltWindU: new Array(12).fill(0),
+            beltWindV: new Array(12).fill(0),
             pressure: new Array(12).fill(1013),
+            thermalPressure: new Array(12).fill(0),
             uplift: new Array(12).fill(0),
+            orographicUplift: new Array(12).fill(0),
+            rainShadow: new Array(12).fill(0),
             hadleyCell: new Array(12).fill(0),
-            oceanCurrent: 0,
-            climateClass: '?'
+            oceanCurrent: new Array(12).fill(0),
+            oceanCurrentU: new Array(12).fill(0),
+            oceanCurrentV: new Array(12).fill(0),
+            upwelling: new Array(12).fill(0),
+            coastalCurrent: new Array(12).fill(0),
+            coastalUpwelling: new Array(12).fill(0),
+            climateClass: '?',
+            climateClasses: {}
         });
     }
   }
@@ -1,26 +1,157 @@
 
-import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, WindBeltsResult } from '../../types';
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, WindBeltsResult, AirflowResult } from '../../types';
+import { buildCellGeometry } from './gridGeometry';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+// --- Monsoon (inflow into the Step 2 thermal lows / out of the highs) ---
+const MONSOON_GAIN = 1.0; // m/s per (hPa / 1000 km)
+const MONSOON_MAX_SPEED = 8.0; // m/s
+const MONSOON_TURN_MAX_DEG = 45; // Coriolis turning of the inflow at the pole
+
+// --- Orography ---
+const BLOCKING_HEIGHT_M = 3000; // barrier height that removes MAX_BLOCKING of the upslope component
+const MAX_BLOCKING = 0.6;
+const OROGRAPHIC_SLOWDOWN_M = 8000; // speed factor 1 / (1 + h / scale)
 
 /**
- * Step 4: Airflow Refinement (Stub)
- * 
- * Future implementation for:
- * - Orograpic effects (mountain blocking).
- * - Land-sea breeze.
- * - Monsoonal flow.
- * - Moisture transport preparation.
+ * Step 4: Airflow Refinement
+ *
+ * Refines the Step 2 belt winds per month:
+ * - Monsoonal flow: air flows down the gradient of the Step 2 seasonal pressure cells (cell.thermalPressure),
+ *   turned by Coriolis with latitude. In geostrophic mode the Step 2 balanced wind already circles those cells,
+ *   so no inflow is added.
+ * - Orographic effects: the upslope component is partly removed in front of high barriers (deflection along ridges)
+ *   and speed drops over high terrain.
+ * Writes refined cell.windU/windV and the local orographic vertical velocity of those winds into cell.uplift
+ * (m/s, + = ascent). The smoothed windward uplift that drives rain-out is Step 4.2's cell.orographicUplift.
  */
 export const computeAirflowDetailed = (
     grid: GridCell[],
-    circulationRes: any,
     windRes: WindBeltsResult,
-    oceanRes: any,
     planet: PlanetParams,
     atm: AtmosphereParams,
     phys: PhysicsParams,
     config: SimulationConfig
-): void => {
-    // Current logic is a pass-through.
-    // Detailed local winds would be calculated here and added to cell.windU/V[m].
-    // For now, Step 2 provides the primary airflow.
+): AirflowResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const total = rows * cols;
+    const rotationSign = planet.isRetrograde ? -1 : 1;
+
+    const monsoon = windRes.modelLevel !== 'geostrophic';
+
+    // --- 1. Geometry ---
+    const { cellHeightKm, cellWidthKm } = buildCellGeometry(grid, planet, rows, cols);
+    const latRad: number[] = [];
+    for (let r = 0; r < rows; r++) latRad.push(toRad(grid[r * cols].lat));
+
+    // --- 2. Terrain Gradient (static) ---
+    const height = new Float64Array(total);
+    for (let i = 0; i < total; i++) height[i] = grid[i].isLand ? Math.max(0, grid[i].elevation) : 0;
+
+    const gradX = new Float64Array(total); // m/m, eastward
+    const gradY = new Float64Array(total); // m/m, northward
+    const barrier = new Float64Array(total); // highest terrain in the 3x3 neighbourhood
+    for (let r = 0; r < rows; r++) {
+        const rN = Math.max(0, r - 1);
+        const rS = Math.min(rows - 1, r + 1);
+        for (let c = 0; c < cols; c++) {
+            const i = r * cols + c;
+            const cE = (c + 1) % cols;
+            const cW = (c - 1 + cols) % cols;
+            gradX[i] = (height[r * cols + cE] - height[r * cols + cW]) / (2 * cellWidthKm[r] * 1000);
+            gradY[i] = rS !== rN ? (height[rN * cols + c] - height[rS * cols + c]) / ((rS - rN) * cellHeightKm * 1000) : 0;
+
+            let hMax = 0;
+            for (const rr of [rN, r, rS]) {
+                for (const cc of [cW, c, cE]) hMax = Math.max(hMax, height[rr * cols + cc]);
+            }
+            barrier[i] = hMax;
+        }
+    }
+
+    let maxUplift = 0;
+    let maxMonsoonSpeed = 0;
+
+    for (let m = 0; m < 12; m++) {
+        // --- 3. Monsoonal Inflow ---
+        const cellPressure = (i: number) => grid[i].thermalPressure[m];
+
+        for (let r = 0; r < rows; r++) {
+            const rN = Math.max(0, r - 1);
+            const rS = Math.min(rows - 1, r + 1);
+            const turn = toRad(MONSOON_TURN_MAX_DEG) * Math.sin(latRad[r]) * rotationSign;
+            const cosT = Math.cos(turn);
+            const sinT = Math.sin(turn);
+
+            for (let c = 0; c < cols; c++) {
+                const i = r * cols + c;
+                const cell = grid[i];
+                const cE = (c + 1) % cols;
+                const cW = (c - 1 + cols) % cols;
+
+                // Gradient of the pressure cells in hPa / 1000 km
+                const dpdx = (cellPressure(r * cols + cE) - cellPressure(r * cols + cW)) / (2 * cellWidthKm[r]) * 1000;
+                const dpdy = rS !== rN
+                    ? (cellPressure(rN * cols + c) - cellPressure(rS * cols + c)) / ((rS - rN) * cellHeightKm) * 1000
+                    : 0;
+
+                // Down-gradient inflow, turned clockwise in the north for prograde rotation
+                let mu = monsoon ? -MONSOON_GAIN * dpdx : 0;
+                let mv = monsoon ? -MONSOON_GAIN * dpdy : 0;
+                const turnedU = mu * cosT + mv * sinT;
+                const turnedV = -mu * sinT + mv * cosT;
+                mu = turnedU;
+                mv = turnedV;
+                const mSpeed = Math.sqrt(mu * mu + mv * mv);
+                if (mSpeed > MONSOON_MAX_SPEED) {
+                    mu *= MONSOON_MAX_SPEED / mSpeed;
+                    mv *= MONSOON_MAX_SPEED / mSpeed;
+                }
+                maxMonsoonSpeed = Math.max(maxMonsoonSpeed, Math.min(mSpeed, MONSOON_MAX_SPEED));
+
+                let u = cell.windU[m] + mu;
+                let v = cell.windV[m] + mv;
+
+                // --- 4. Orographic Deflection ---
+                const slope = Math.sqrt(gradX[i] * gradX[i] + gradY[i] * gradY[i]);
+                if (slope > 0) {
+                    const nx = gradX[i] / slope;
+                    const ny = gradY[i] / slope;
+                    const upslope = u * nx + v * ny;
+                    if (upslope > 0) {
+                        const blocking = Math.min(MAX_BLOCKING, MAX_BLOCKING * barrier[i] / BLOCKING_HEIGHT_M);
+                        u -= blocking * upslope * nx;
+                        v -= blocking * upslope * ny;
+                    }
+                }
+
+                const slowdown = 1 / (1 + height[i] / OROGRAPHIC_SLOWDOWN_M);
+                u *= slowdown;
+                v *= slowdown;
+
+                cell.windU[m] = u;
+                cell.windV[m] = v;
+
+                // --- 5. Orographic Vertical Velocity ---
+                const w = u * gradX[i] + v * gradY[i];
+                cell.uplift[m] = w;
+                maxUplift = Math.max(maxUplift, Math.abs(w));
+            }
+        }
+    }
+
+    return {
+        maxUplift,
+        maxMonsoonSpeed,
+        debug: {
+            paramsUsed: {
+                hadleyEdgeDeg: windRes.hadleyEdgeDeg,
+                monsoon: monsoon ? 1 : 0,
+                blockingHeightM: BLOCKING_HEIGHT_M,
+                rotationSign
+            }
+        }
+    };
 };
@@ -1,13 +1,119 @@
 
 
-import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams } from '../../types';
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, ConvectiveCenter, CirculationScaling } from '../../types';
+import { getOrbitalPosition, getSeasonalObliquity } from './insolation';
+import { isTidallyLocked, getEffectiveRotationPeriod, SUBSTELLAR_LON_DEG, SUBSTELLAR_CONVECTION_RADIUS_DEG } from './tidalLock';
 
 const toRad = (d: number) => d * Math.PI / 180;
 const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
 
+// --- High Obliquity ---
+const HIGH_OBLIQUITY_DEG = 54; // above this the poles receive more annual insolation than the equator
+const POLAR_BAND_MIN_LAT = 60; // bands compared for the annual pole-to-tropics insolation contrast
+const TROPICAL_BAND_MAX_LAT = 30;
+
+// --- Seasonal Lag ---
+const ITCZ_TAU_OCEAN_MONTHS = 3.3; // mixed-layer response time at heatCapacityOcean = 1 (~2 month lag)
+const ITCZ_TAU_LAND_MONTHS = 0.5; // land surface + air column (~2 week lag)
+
+// --- Held–Hou / Rhines Scaling ---
+const GAS_CONSTANT_DRY_AIR = 287.0; // J/kg/K
+const STEFAN_BOLTZMANN = 5.67e-8;
+const REFERENCE_PLANETARY_ALBEDO = 0.3; // for the radiative-equilibrium temperatures behind ΔT
+const TROPOPAUSE_PRESSURE_BAR = 0.1; // thick atmospheres share a ~0.1 bar tropopause (Robinson & Catling 2014)
+const MIN_TROPOSPHERE_SCALE_HEIGHTS = 0.5; // floor on ln(p_s / p_tropopause) for thin atmospheres
+const RHINES_REFERENCE_LAT = 45; // β is evaluated in mid-latitudes
+const MAX_JET_COUNT = 7; // 1 + 2 × 7 = 15 cells, the cap of the cell count
+
+/**
+ * Held–Hou width of the Hadley cell and Rhines-scale jet count.
+ * - ΔT: the larger of the annual equator-to-pole contrast of the radiative-equilibrium temperature
+ *   (tropics |lat| <= 30° vs polar caps |lat| >= 60°) and the solstitial contrast across the equator
+ *   (0–30°N vs 0–30°S, strongest month). Near 54° obliquity the annual contrast vanishes while the seasonal
+ *   one still drives a wide winter cell (Lindzen & Hou 1988). T0 is the annual area mean.
+ * - Troposphere depth H = (R_d·T0 / g) · ln(p_s / p_tropopause).
+ * - Thermal Rossby number Ro_T = g·H·(ΔT/T0) / (Ω·a)^2; Hadley edge φ_H = sqrt(5/3 · Ro_T) (Held & Hou 1980).
+ * - Rhines length L = π·sqrt(2U/β) at 45°, U = Ro_T·Ω·a being the thermal wind scale. Each jet takes a
+ *   westerly and an easterly belt, so the extratropics hold round((90° - φ_H) / L) jets per hemisphere,
+ *   at most MAX_JET_COUNT (also the limit as L → 0).
+ */
+const computeHeldHouScaling = (
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    annualZonal: Float64Array,
+    monthlyZonal: Float64Array[],
+    latList: number[],
+    cosLatList: number[],
+    rotationPeriod: number
+): CirculationScaling => {
+    const equilibriumTemp = (flux: number) => Math.pow(Math.max(0, flux) * (1 - REFERENCE_PLANETARY_ALBEDO) / STEFAN_BOLTZMANN, 0.25);
+
+    let tropicalSum = 0, tropicalW = 0, polarSum = 0, polarW = 0, meanSum = 0, meanW = 0;
+    for (let r = 0; r < latList.length; r++) {
+        const absLat = Math.abs(latList[r]);
+        const te = equilibriumTemp(annualZonal[r]);
+        const w = cosLatList[r];
+        meanSum += te * w; meanW += w;
+        if (absLat <= TROPICAL_BAND_MAX_LAT) { tropicalSum += te * w; tropicalW += w; }
+        if (absLat >= POLAR_BAND_MIN_LAT) { polarSum += te * w; polarW += w; }
+    }
+    const t0 = meanW > 0 ? Math.max(1, meanSum / meanW) : 255;
+    // Magnitude only: a reversed (high-obliquity) gradient drives the same overturning strength
+    const annualDeltaT = tropicalW > 0 && polarW > 0 ? Math.abs(tropicalSum / tropicalW - polarSum / polarW) : 0;
+
+    let solsticeDeltaT = 0;
+    for (const zonal of monthlyZonal) {
+        let northSum = 0, northW = 0, southSum = 0, southW = 0;
+        for (let r = 0; r < latList.length; r++) {
+            if (Math.abs(latList[r]) > TROPICAL_BAND_MAX_LAT) continue;
+            const te = equilibriumTemp(zonal[r]) * cosLatList[r];
+            if (latList[r] >= 0) { northSum += te; northW += cosLatList[r]; }
+            if (latList[r] <= 0) { southSum += te; southW += cosLatList[r]; }
+        }
+        if (northW > 0 && southW > 0) solsticeDeltaT = Math.max(solsticeDeltaT, Math.abs(northSum / northW - southSum / southW));
+    }
+    const deltaT = Math.max(annualDeltaT, solsticeDeltaT);
+
+    const gravity = Math.max(0.1, planet.gravity);
+    const scaleHeightM = GAS_CONSTANT_DRY_AIR * t0 / gravity;
+    const tropopauseHeightM = scaleHeightM * Math.max(MIN_TROPOSPHERE_SCALE_HEIGHTS, Math.log(atm.surfacePressure / TROPOPAUSE_PRESSURE_BAR));
+
+    const omega = 2 * Math.PI / (rotationPeriod * 3600);
+    const radiusM = planet.radius * 1000;
+    const thermalRossby = gravity * tropopauseHeightM * (deltaT / t0) / Math.pow(omega * radiusM, 2);
+    const hadleyEdgeDeg = Math.min(90, Math.sqrt(5 / 3 * thermalRossby) * 180 / Math.PI);
+
+    const thermalWindSpeed = thermalRossby * omega * radiusM;
+    const beta = 2 * omega * Math.cos(toRad(RHINES_REFERENCE_LAT)) / radiusM;
+    const rhinesLengthM = Math.PI * Math.sqrt(2 * thermalWindSpeed / Math.max(1e-30, beta));
+    const rhinesLengthDeg = rhinesLengthM / radiusM * 180 / Math.PI;
+    const jetCount = rhinesLengthDeg > 0
+        ? clamp(Math.round((90 - hadleyEdgeDeg) / rhinesLengthDeg), 0, MAX_JET_COUNT)
+        : MAX_JET_COUNT;
+
+    return {
+        thermalRossby,
+        hadleyEdgeDeg,
+        rhinesLengthKm: rhinesLengthM / 1000,
+        jetCount,
+        scaleHeightKm: scaleHeightM / 1000,
+        tropopauseHeightKm: tropopauseHeightM / 1000,
+        equatorPoleContrastK: deltaT,
+        thermalWindSpeed
+    };
+};
+
 /**
  * Step 1: ITCZ Determination Algorithm
  * Based on "Generic Planet ITCZ Algorithm Specification"
+ *
+ * Tidally locked planets have no migrating zonal belt: deep convection sits over the substellar point
+ * (convectiveCenter) and a single overturning cell spans the whole planet. itczLines then trace the
+ * latitude of the substellar point so that ITCZ-relative consumers stay centred on it.
+ *
+ * Above HIGH_OBLIQUITY_DEG the ITCZ no longer swings on a fixed cosine inside [0, Obliquity]: each month
+ * it follows the latitude of the zonal-mean insolation maximum (damped by the same land/sea shift ratio).
+ * polarInsolationRatio (annual polar cap / tropics) above 1 marks a reversed equator-to-pole gradient.
  */
 export const computeCirculation = (
     grid: GridCell[],
@@ -15,10 +121,58 @@ export const computeCirculation = (
     atm: AtmosphereParams,
     phys: PhysicsParams,
     config: SimulationConfig
-): { itczLines: number[][], cellCount: number, hadleyWidth: number } => {
+): {
+    itczLines: number[][], cellCount: number, hadleyWidth: number, convectiveCenter?: ConvectiveCenter,
+    highObliquity?: boolean, polarInsolationRatio?: number, scaling?: CirculationScaling
+} => {
     
     const rows = config.resolutionLat;
     const cols = config.resolutionLon;
+    const rotationPeriod = getEffectiveRotationPeriod(planet);
+
+    // --- Zonal Insolation Profile ---
+    // Latitudes of the grid rows
+    const latList: number[] = [];
+    const cosLatList: number[] = [];
+    for(let r=0; r<rows; r++) {
+        const lat = grid[r*cols].lat; // Assumes rectangular grid
+        latList.push(lat);
+        cosLatList.push(Math.cos(toRad(lat)));
+    }
+
+    // Latitude of the zonal-mean insolation maximum per month (1.5), and the annual pole-to-tropics contrast.
+    const maxInsolationLat: number[] = [];
+    const annualZonal = new Float64Array(rows);
+    const monthlyZonal: Float64Array[] = [];
+    for (let m = 0; m < 12; m++) {
+        const zonal = new Float64Array(rows);
+        monthlyZonal.push(zonal);
+        for (let r = 0; r < rows; r++) {
+            let sum = 0;
+            for (let c = 0; c < cols; c++) sum += grid[r * cols + c].insolation[m];
+            zonal[r] = sum / cols;
+            annualZonal[r] += zonal[r] / 12;
+        }
+        let best = 0;
+        for (let r = 1; r < rows; r++) if (zonal[r] > zonal[best]) best = r;
+        // Parabolic refinement between neighbouring rows
+        let offset = 0;
+        if (best > 0 && best < rows - 1) {
+            const denom = zonal[best - 1] - 2 * zonal[best] + zonal[best + 1];
+            if (denom < 0) offset = clamp(0.5 * (zonal[best - 1] - zonal[best + 1]) / denom, -0.5, 0.5);
+        }
+        const rowStep = rows > 1 ? latList[0] - latList[1] : 0;
+        maxInsolationLat.push(clamp(latList[best] - offset * rowStep, -90, 90));
+    }
+
+    let polarSum = 0, polarW = 0, tropicalSum = 0, tropicalW = 0;
+    for (let r = 0; r < rows; r++) {
+        const absLat = Math.abs(latList[r]);
+        if (absLat >= POLAR_BAND_MIN_LAT) { polarSum += annualZonal[r] * cosLatList[r]; polarW += cosLatList[r]; }
+        if (absLat <= TROPICAL_BAND_MAX_LAT) { tropicalSum += annualZonal[r] * cosLatList[r]; tropicalW += cosLatList[r]; }
+    }
+    const tropicalMean = tropicalW > 0 ? tropicalSum / tropicalW : 0;
+    const polarInsolationRatio = tropicalMean > 0 && polarW > 0 ? (polarSum / polarW) / tropicalMean : 0;
 
     // --- 0. Calculate Number of Circulation Cells ---
     // Physical Reference: Earth
@@ -34,19 +188,41 @@ export const computeCirculation = (
     // Note: This relies on physics proportionality, not hardcoded Earth values.
     // Earth constants are used only for unit conversion/scaling reference.
     const radiusRatio = planet.radius / R_EARTH;
-    const rotSpeedRatio = P_ROT_EARTH / planet.rotationPeriod;
+    const rotSpeedRatio = P_ROT_EARTH / rotationPeriod;
     
     // Heuristic Formula
     const estimatedCells = 3.0 * radiusRatio * Math.sqrt(rotSpeedRatio);
+
+    // Held–Hou / Rhines alternative (phys.circulationScaling = 'heldHou'); always evaluated for the debug view
+    const scaling = computeHeldHouScaling(planet, atm, annualZonal, monthlyZonal, latList, cosLatList, rotationPeriod);
+    const useHeldHou = phys.circulationScaling === 'heldHou';
     
     // Clamp to minimum 1 cell (Single Hadley cell per hemisphere)
     // Max 15 to prevent extreme segmentation on giant fast rotators
-    const cellCount = Math.min(15, Math.max(1, Math.round(estimatedCells)));
+    const cellCount = useHeldHou
+        ? Math.min(15, 1 + 2 * scaling.jetCount)
+        : Math.min(15, Math.max(1, Math.round(estimatedCells)));
     
     // Estimated Width of the Tropical (Hadley) Cell in degrees
     // In a multi-cell model, the tropical cell is roughly 90 / N, though typically wider than high-latitude cells.
     // We approximate it as equal division for simulation parameters.
-    const hadleyWidth = 90.0 / cellCount;
+    const hadleyWidth = useHeldHou ? scaling.hadleyEdgeDeg : 90.0 / cellCount;
+
+    // --- 1.1 Tidally Locked: Day-side Convective Centre ---
+    if (isTidallyLocked(planet)) {
+        const latDeg: number[] = [];
+        for (let m = 0; m < 12; m++) {
+            latDeg.push(getOrbitalPosition(planet, (m + 0.5) / 12).declination * 180 / Math.PI);
+        }
+        for (const cell of grid) cell.heatMapVal = 0;
+        return {
+            itczLines: latDeg.map(lat => new Array(cols).fill(lat)),
+            cellCount: 1,
+            hadleyWidth: 90,
+            convectiveCenter: { latDeg, lonDeg: SUBSTELLAR_LON_DEG, radiusDeg: SUBSTELLAR_CONVECTION_RADIUS_DEG },
+            scaling
+        };
+    }
 
     // --- 1.2 Generate Influence Map (HeatMap) ---
     // S_dist: Normalized Distance (-1.0 Ocean, +1.0 Inland)
@@ -84,7 +260,7 @@ export const computeCirculation = (
     // --- 1.4 Smoothing Kernel Size (R) ---
     // Based on Rotation Period
     const rDeg = Math.min(
-        phys.itczKernelAngle * (planet.rotationPeriod / phys.itczRefDay),
+        phys.itczKernelAngle * (rotationPeriod / phys.itczRefDay),
         phys.itczKernelMax
     );
 
@@ -94,21 +270,16 @@ export const computeCirculation = (
     const finalLatNorth = new Float32Array(cols);
     const finalLatSouth = new Float32Array(cols);
 
-    // Latitudes of the grid rows
-    const latList: number[] = [];
-    const cosLatList: number[] = [];
-    for(let r=0; r<rows; r++) {
-        const lat = grid[r*cols].lat; // Assumes rectangular grid
-        latList.push(lat);
-        cosLatList.push(Math.cos(toRad(lat)));
-    }
-
-    // Pre-process: Create 2D array for fast HeatMap access
-    // Note: We only care about the Tropical Zone [0, Obliquity]
-    const obliquity = planet.obliquity;
+    // Standard regime: the ITCZ sweeps [0, Obliquity]. High obliquity: it follows the insolation maximum,
+    // which can sit on the summer pole.
+    const obliquity = getSeasonalObliquity(planet);
+    const highObliquity = obliquity > HIGH_OBLIQUITY_DEG;
+    const reachNorth = highObliquity ? Math.max(0, ...maxInsolationLat) : obliquity;
+    const reachSouth = highObliquity ? Math.max(0, ...maxInsolationLat.map(l => -l)) : obliquity;
 
-    // Helper to compute ITCZ for a specific column (lonIndex) and a specific hemisphere
+    // Helper to compute the effective land share t (0 = sea, 1 = land) for a specific column (lonIndex) and hemisphere
     const computeItczForColumn = (c: number, isNorth: boolean): number => {
+        const reach = isNorth ? reachNorth : reachSouth;
         let weightedSum = 0;
         let weightSum = 0;
 
@@ -116,11 +287,11 @@ export const computeCirculation = (
         for (let r = 0; r < rows; r++) {
             const lat = latList[r];
             
-            // Only consider range [0, Obliquity] in the target hemisphere
+            // Only consider range [0, reach] in the target hemisphere
             if (isNorth) {
-                if (lat < 0 || lat > obliquity) continue;
+                if (lat < 0 || lat > reach) continue;
             } else {
-                if (lat > 0 || lat < -obliquity) continue;
+                if (lat > 0 || lat < -reach) continue;
             }
 
             const cosLat = cosLatList[r];
@@ -149,59 +320,86 @@ export const computeCirculation = (
         // L_eff: -1.0 to 1.0
         const lEff = weightedSum / weightSum;
 
-        // --- 1.6 ITCZ Latitude ---
         // Normalize t: 0.0 (Sea) -> 1.0 (Land)
-        const t = (lEff + 1.0) / 2.0;
-
-        // Shift ratio (fraction of obliquity)
-        const shiftRatio = (1.0 - t) * kSea + t * kLand;
-        
-        // Return absolute latitude shift
-        return obliquity * shiftRatio;
+        return (lEff + 1.0) / 2.0;
     };
 
-    // Calculate for all longitudes
+    // --- 1.6 ITCZ Latitude ---
+    // Shift ratio (fraction of the reach) and seasonal lag per longitude
+    const ratioNorth = new Float32Array(cols);
+    const ratioSouth = new Float32Array(cols);
+    const lagMonths = new Float32Array(cols);
+
+    // A first-order thermal response lags a sinusoidal forcing by atan(ωτ)/ω. τ is fixed in time,
+    // so a shorter year sees a longer lag in months.
+    const omega = 2 * Math.PI / 12; // rad per month
+    const yearScale = phys.itczRefYear / pOrb;
+    const thermalLag = (tauMonths: number) => Math.atan(omega * tauMonths * yearScale) / omega;
+    const lagOcean = thermalLag(ITCZ_TAU_OCEAN_MONTHS * atm.heatCapacityOcean);
+    const lagLand = thermalLag(ITCZ_TAU_LAND_MONTHS);
+
     for (let c = 0; c < cols; c++) {
         // Summer in North (July) -> ITCZ is North
-        const shiftN = computeItczForColumn(c, true);
-        finalLatNorth[c] = shiftN;
+        const tN = computeItczForColumn(c, true);
+        const shiftN = (1.0 - tN) * kSea + tN * kLand;
+        ratioNorth[c] = shiftN;
+        finalLatNorth[c] = obliquity * shiftN;
 
         // Summer in South (Jan) -> ITCZ is South (result is positive shift magnitude)
-        const shiftS = computeItczForColumn(c, false);
-        finalLatSouth[c] = -shiftS; // Convert to actual latitude
+        const tS = computeItczForColumn(c, false);
+        const shiftS = (1.0 - tS) * kSea + tS * kLand;
+        ratioSouth[c] = shiftS;
+        finalLatSouth[c] = -obliquity * shiftS; // Convert to actual latitude
+
+        const t = (tN + tS) / 2;
+        lagMonths[c] = (1.0 - t) * lagOcean + t * lagLand;
     }
 
-    // --- 1.7 Interpolation / Output ---
-    // The visualizer handles spline interpolation if we provide the points.
-    // We provide 12 months.
-    // Standard approach: 
-    // Month 0 (Jan): ITCZ is fully South
-    // Month 6 (July): ITCZ is fully North
-    // Other months: Sinusoidal interpolation between South and North peaks
+    // --- 1.7 Seasonal Timing / Output ---
+    // We provide 12 months (mid-month), each read from the forcing `lag` months earlier.
+    // Standard: the forcing is the subsolar latitude of the modelled orbit, sin(δ)/sin(ε) weighted by (a/r)^2,
+    // normalised by its peak over the year so it stays within [-1, 1]. Eccentricity then skews the seasonal
+    // march as an asymmetry: the hemisphere with its summer at perihelion reaches its full peak, the other less.
+    // Positive forcing moves the ITCZ toward the northern peak, negative toward the southern one.
+    // High obliquity: the latitude of the insolation maximum, scaled by the column's shift ratio.
+    const sinObliquity = Math.sin(toRad(obliquity));
+    const rawForcing = (yearFraction: number): number => {
+        const pos = getOrbitalPosition(planet, yearFraction);
+        return sinObliquity > 1e-6 ? Math.sin(pos.declination) / sinObliquity / (pos.distance * pos.distance) : 0;
+    };
+    const FORCING_SAMPLES = 360;
+    let forcingPeak = 0;
+    for (let i = 0; i < FORCING_SAMPLES; i++) {
+        forcingPeak = Math.max(forcingPeak, Math.abs(rawForcing(i / FORCING_SAMPLES)));
+    }
+    const seasonalForcing = (yearFraction: number): number =>
+        forcingPeak > 1e-9 ? clamp(rawForcing(yearFraction) / forcingPeak, -1, 1) : 0;
+    const insolationMaxAt = (month: number): number => {
+        const m0 = Math.floor(month);
+        const f = month - m0;
+        const a = maxInsolationLat[((m0 % 12) + 12) % 12];
+        const b = maxInsolationLat[(((m0 + 1) % 12) + 12) % 12];
+        return a * (1 - f) + b * f;
+    };
 
     const itczLines: number[][] = [];
     for (let m = 0; m < 12; m++) {
-        // tMonth: 0 (Jan) -> 1 (July) -> 0 (Jan)
-        // 0=Jan (South), 6=July (North)
-        // Cosine wave: -cos(m * PI / 6) ranges from -1 to 1.
-        // We want Jan=-1 (South), July=1 (North).
-        // phase: m=0 -> -1, m=6 -> 1.
-        const phase = -Math.cos(m * Math.PI / 6);
-        
         const line: number[] = [];
         for (let c = 0; c < cols; c++) {
+            if (highObliquity) {
+                const target = insolationMaxAt(m - lagMonths[c]);
+                line.push(target * (target >= 0 ? ratioNorth[c] : ratioSouth[c]));
+                continue;
+            }
+
+            const forcing = seasonalForcing((m + 0.5 - lagMonths[c]) / 12);
             const latN = finalLatNorth[c]; // Peak North
             const latS = finalLatSouth[c]; // Peak South (negative)
-            
-            // Interpolate
-            // if phase -1 -> latS
-            // if phase 1 -> latN
-            const t = (phase + 1) / 2; // 0 to 1
-            const currentLat = latS * (1 - t) + latN * t;
-            line.push(currentLat);
+            const currentLat = forcing >= 0 ? latN * forcing : -latS * forcing;
+            line.push(clamp(currentLat, -obliquity, obliquity));
         }
         itczLines.push(line);
     }
 
-    return { itczLines, cellCount, hadleyWidth };
-};
\ No newline at end of file
+    return { itczLines, cellCount, hadleyWidth, highObliquity, polarInsolationRatio, scaling };
+};
@@ -0,0 +1,84 @@
+
+import { GridCell, SimulationConfig } from '../../types';
+
+// --- Neighbourhood ---
+const MIN_RANGE_CELLS = 2; // half-width of the square window around a land cell
+const RANGE_COLS_PER_CELL = 90; // ...grown with resolution so the window keeps ~4° of longitude
+
+/**
+ * Per-month mean of an ocean field over the (2R+1)^2 window around each cell, ocean cells only.
+ * Separable box sums (longitude wraps, latitude clips). Cells without ocean in the window get 0.
+ */
+const nearbyOceanMean = (
+    grid: GridCell[],
+    rows: number,
+    cols: number,
+    range: number,
+    field: (cell: GridCell) => number[]
+): Float64Array[] => {
+    const total = rows * cols;
+    const out: Float64Array[] = [];
+    const rowSum = new Float64Array(total);
+    const rowCount = new Float64Array(total);
+
+    for (let m = 0; m < 12; m++) {
+        // 1. Along the rows
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                let sum = 0, count = 0;
+                for (let dc = -range; dc <= range; dc++) {
+                    const cell = grid[r * cols + ((c + dc) % cols + cols) % cols];
+                    if (cell.isLand) continue;
+                    sum += field(cell)[m];
+                    count++;
+                }
+                rowSum[r * cols + c] = sum;
+                rowCount[r * cols + c] = count;
+            }
+        }
+
+        // 2. Down the columns
+        const mean = new Float64Array(total);
+        for (let r = 0; r < rows; r++) {
+            const r0 = Math.max(0, r - range);
+            const r1 = Math.min(rows - 1, r + range);
+            for (let c = 0; c < cols; c++) {
+                let sum = 0, count = 0;
+                for (let rr = r0; rr <= r1; rr++) {
+                    sum += rowSum[rr * cols + c];
+                    count += rowCount[rr * cols + c];
+                }
+                mean[r * cols + c] = count > 0 ? sum / count : 0;
+            }
+        }
+        out.push(mean);
+    }
+    return out;
+};
+
+/**
+ * Step 3.4: Coastal Ocean Influence
+ *
+ * Land cells read the sea next to them: the mean Step 3.2 current anomaly and Step 3.3 upwelling of the
+ * ocean cells in a small window around each land cell, per month. Computed once after Step 3.3 so that the Step 5 solver loops and
+ * the Step 6 spin-up only look values up.
+ * Writes cell.coastalCurrent[month] and cell.coastalUpwelling[month] (land only, 0 at sea).
+ */
+export const computeCoastalOceanField = (
+    grid: GridCell[],
+    config: SimulationConfig
+): void => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const range = Math.max(MIN_RANGE_CELLS, Math.round(cols / RANGE_COLS_PER_CELL));
+
+    const current = nearbyOceanMean(grid, rows, cols, range, c => c.oceanCurrent);
+    const upwelling = nearbyOceanMean(grid, rows, cols, range, c => c.upwelling);
+    for (let i = 0; i < grid.length; i++) {
+        const cell = grid[i];
+        for (let m = 0; m < 12; m++) {
+            cell.coastalCurrent[m] = cell.isLand ? current[m][i] : 0;
+            cell.coastalUpwelling[m] = cell.isLand ? upwelling[m][i] : 0;
+        }
+    }
+};
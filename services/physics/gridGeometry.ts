@@ -0,0 +1,27 @@
+
+import { GridCell, PlanetParams } from '../../types';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+const MIN_CELL_WIDTH_RATIO = 0.25; // floor on cell width (vs. height) for gradients near the poles
+
+export interface CellGeometry {
+    cellHeightKm: number; // meridional spacing of the rows
+    cellWidthKm: number[]; // [Row] zonal spacing, floored near the poles
+}
+
+/**
+ * Cell spacing of the lat/lon grid for the finite differences of Steps 2, 4 and 4.2.
+ * Widths shrink with cos(lat) but never below MIN_CELL_WIDTH_RATIO of the height, so gradients
+ * stay bounded in the polar rows.
+ */
+export const buildCellGeometry = (grid: GridCell[], planet: PlanetParams, rows: number, cols: number): CellGeometry => {
+    const kmPerDegLat = (2 * Math.PI * planet.radius) / 360;
+    const cellHeightKm = kmPerDegLat * 180 / Math.max(1, rows - 1);
+    const cellWidthKm: number[] = [];
+    for (let r = 0; r < rows; r++) {
+        const w = kmPerDegLat * (360 / cols) * Math.cos(toRad(grid[r * cols].lat));
+        cellWidthKm.push(Math.max(cellHeightKm * MIN_CELL_WIDTH_RATIO, w));
+    }
+    return { cellHeightKm, cellWidthKm };
+};
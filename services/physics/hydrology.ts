@@ -1,3 +1,264 @@
 
-// Logic removed per request.
-export const computeHydrology = () => {};
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, HydroResult, ConvectiveCenter } from '../../types';
+import { angularDistanceDeg } from './tidalLock';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// --- Evaporation (mm/day) ---
+const EVAP_OCEAN_REF = 4.5; // open ocean at 25°C and reference wind
+const EVAP_REF_TEMP = 298.15;
+const EVAP_TEMP_COEFF = 0.06; // 1/K, ~Clausius-Clapeyron
+const EVAP_WIND_REF = 7.0; // m/s
+const EVAP_ICE_FACTOR = 0.1; // sublimation over ice / snow
+const LAND_EVAP_FACTOR = 0.6; // potential evapotranspiration relative to open water
+const SOIL_CAPACITY = 150.0; // mm, bucket model
+
+// --- Column Water (mm) ---
+const SAT_WATER_REF = 45.0; // saturated precipitable water at 25°C
+const SAT_TEMP_COEFF = 0.065; // 1/K
+const COLUMN_SURFACE_WEIGHT = 0.5; // column temperature = blend of local surface and zonal mean
+const SUPERSATURATION_RAIN_RATE = 0.5; // 1/day, rain-out of water above the saturation column
+const MAX_CLAUSIUS_CLAPEYRON_EXCESS_K = 40; // evaporation and saturation stop growing 40 K above EVAP_REF_TEMP (hot planets)
+
+// --- Rain-out (1/day) ---
+const RAIN_TIMESCALE_DAYS = 8.0; // background residence time of water vapour
+const ITCZ_RAIN_BOOST = 4.0; // extra rain-out rate on the ITCZ line
+const HIGH_PRESSURE_SUPPRESSION = 1.5; // exp(-k * normalized pressure anomaly)
+const CONVERGENCE_REF = 5e-6; // 1/s, convergence that doubles the rain-out rate
+const MAX_CONVERGENCE_BOOST = 3.0;
+const OROGRAPHIC_UPLIFT_REF = 0.01; // m/s, windward uplift that doubles the rain-out rate
+const MAX_OROGRAPHIC_BOOST = 4.0;
+const RAIN_SHADOW_SUPPRESSION = 0.8; // rain-out reduction under a full rain shadow
+const COLD_CURRENT_STABILITY = 1.5; // exp(-k * coldness): marine inversion over / beside cold currents
+const COASTAL_CURRENT_SCALE_KM = 300; // inland reach of the current's stabilising effect
+
+// --- Integration ---
+const STEPS_PER_MONTH = 30;
+const SPINUP_YEARS = 2;
+
+export interface HydrologyInput {
+    itczLines: number[][]; // [Month][Col] -> Lat
+    convectiveCenter?: ConvectiveCenter; // tidally locked: replaces the ITCZ lines
+}
+
+/**
+ * Bilinear sample of a row-major field. Longitude wraps, latitude clamps.
+ */
+const sampleField = (field: Float64Array, x: number, y: number, rows: number, cols: number): number => {
+    const yc = clamp(y, 0, rows - 1);
+    const y0 = Math.floor(yc);
+    const y1 = Math.min(rows - 1, y0 + 1);
+    const fy = yc - y0;
+
+    const xw = ((x % cols) + cols) % cols;
+    const x0 = Math.floor(xw);
+    const x1 = (x0 + 1) % cols;
+    const fx = xw - x0;
+
+    const top = field[y0 * cols + x0] * (1 - fx) + field[y0 * cols + x1] * fx;
+    const bottom = field[y1 * cols + x0] * (1 - fx) + field[y1 * cols + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Step 6: Hydrology (Moisture Transport & Precipitation)
+ *
+ * Daily column-water budget, integrated month by month:
+ * - Evaporation: ocean cells by temperature (Clausius-Clapeyron) and wind speed, land cells from a soil bucket, suppressed on ice.
+ * - Advection: semi-Lagrangian transport along the Step 4 refined windU/windV field.
+ * - Rain-out: relaxation toward zero on a residence timescale that shortens near the ITCZ lines,
+ *   in low pressure, under surface convergence and windward uplift (Step 4.2, rising air), and lengthens under
+ *   the subtropical highs, in rain shadows and over / beside cold currents (Step 3.2 anomaly, stable marine layer).
+ *   Water above the saturation column (set by temperature) rains out on a short timescale.
+ * Fills cell.moisture (mean column water, mm) and cell.precip (mm/month).
+ */
+export const computeHydrology = (
+    grid: GridCell[],
+    circulationRes: HydrologyInput,
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    phys: PhysicsParams,
+    config: SimulationConfig
+): HydroResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const total = rows * cols;
+
+    // --- 1. Geometry ---
+    const kmPerDegLat = (2 * Math.PI * planet.radius) / 360;
+    const dLatDeg = 180 / Math.max(1, rows - 1);
+    const dLonDeg = 360 / cols;
+    const cellHeightM = kmPerDegLat * dLatDeg * 1000;
+    const cellWidthM: number[] = [];
+    for (let r = 0; r < rows; r++) {
+        cellWidthM.push(Math.max(1, kmPerDegLat * dLonDeg * Math.cos(toRad(grid[r * cols].lat)) * 1000));
+    }
+
+    const daysPerMonth = planet.orbitalPeriod / 24 / 12;
+    const dtDays = daysPerMonth / STEPS_PER_MONTH;
+    const dtSec = dtDays * 86400;
+
+    // --- 2. State ---
+    const water = new Float64Array(total);
+    const soil = new Float64Array(total).fill(SOIL_CAPACITY * 0.5);
+    const next = new Float64Array(total);
+
+    const monthlyEvap = new Float64Array(12);
+    const monthlyPrecip = new Float64Array(12);
+
+    for (let year = 0; year < SPINUP_YEARS; year++) {
+        const record = year === SPINUP_YEARS - 1;
+
+        for (let m = 0; m < 12; m++) {
+            // --- 3. Monthly Forcing ---
+            const evapPot = new Float64Array(total);
+            const satWater = new Float64Array(total);
+            const rainRate = new Float64Array(total); // 1/day
+            const itcz = circulationRes.itczLines[m];
+
+            for (let r = 0; r < rows; r++) {
+                const lat = grid[r * cols].lat;
+                for (let c = 0; c < cols; c++) {
+                    const i = r * cols + c;
+                    const cell = grid[i];
+                    const t = cell.temp[m];
+                    const u = cell.windU[m];
+                    const v = cell.windV[m];
+
+                    // Evaporation potential
+                    const speed = Math.sqrt(u * u + v * v);
+                    const windFactor = 0.5 + 0.5 * Math.min(2, speed / EVAP_WIND_REF);
+                    const tExcess = Math.min(MAX_CLAUSIUS_CLAPEYRON_EXCESS_K, t - EVAP_REF_TEMP);
+                    let e = EVAP_OCEAN_REF * Math.exp(EVAP_TEMP_COEFF * tExcess) * windFactor;
+                    if (cell.isLand) e *= LAND_EVAP_FACTOR;
+                    if (cell.iceCover > 0) e *= EVAP_ICE_FACTOR;
+                    evapPot[i] = e;
+
+                    // Saturation column from the sea-level equivalent temperature (terrain is handled by orographic lifting).
+                    // The air column responds to the zonal mean as much as to the local surface.
+                    const tSeaLevel = cell.isLand ? t + atm.lapseRate * Math.max(0, cell.elevation) / 1000 : t;
+                    const tColumn = COLUMN_SURFACE_WEIGHT * tSeaLevel + (1 - COLUMN_SURFACE_WEIGHT) * cell.tempZonal[m];
+                    satWater[i] = SAT_WATER_REF * Math.exp(SAT_TEMP_COEFF * Math.min(MAX_CLAUSIUS_CLAPEYRON_EXCESS_K, tColumn - EVAP_REF_TEMP));
+
+                    // Convergence (-div) from centered differences, v positive northward (row index decreases)
+                    const cE = (c + 1) % cols;
+                    const cW = (c - 1 + cols) % cols;
+                    const rN = Math.max(0, r - 1);
+                    const rS = Math.min(rows - 1, r + 1);
+                    const dudx = (grid[r * cols + cE].windU[m] - grid[r * cols + cW].windU[m]) / (2 * cellWidthM[r]);
+                    const dvdy = rS !== rN
+                        ? (grid[rN * cols + c].windV[m] - grid[rS * cols + c].windV[m]) / ((rS - rN) * cellHeightM)
+                        : 0;
+                    const convergence = -(dudx + dvdy);
+                    const convBoost = clamp(convergence / CONVERGENCE_REF, 0, MAX_CONVERGENCE_BOOST);
+
+                    // ITCZ proximity (distance to the substellar convective centre on a locked planet)
+                    const center = circulationRes.convectiveCenter;
+                    const dItcz = center
+                        ? angularDistanceDeg(lat, cell.lon, center.latDeg[m], center.lonDeg) / center.radiusDeg
+                        : (lat - itcz[c]) / Math.max(1, phys.windItczConvergenceWidth * 0.5);
+                    const itczBoost = ITCZ_RAIN_BOOST * Math.exp(-dItcz * dItcz);
+
+                    // Pressure: lows lift, highs subside
+                    const pNorm = (cell.pressure[m] - 1013) / Math.max(1, phys.windPressureAnomalyMax);
+                    const pressureFactor = Math.exp(-HIGH_PRESSURE_SUPPRESSION * pNorm);
+
+                    // Orography: forced ascent on windward slopes, drying behind the crest
+                    const orographicBoost = clamp(cell.orographicUplift[m] / OROGRAPHIC_UPLIFT_REF, 0, MAX_OROGRAPHIC_BOOST);
+                    const shadowFactor = 1 - RAIN_SHADOW_SUPPRESSION * cell.rainShadow[m];
+
+                    // Cold currents stabilise the lower air column
+                    const current = cell.isLand
+                        ? cell.coastalCurrent[m] * Math.exp(-cell.distCoast / COASTAL_CURRENT_SCALE_KM)
+                        : cell.oceanCurrent[m];
+                    const stability = Math.exp(-COLD_CURRENT_STABILITY * Math.max(0, -current));
+
+                    rainRate[i] = (1 / RAIN_TIMESCALE_DAYS) * pressureFactor * shadowFactor * stability * (1 + itczBoost + convBoost + orographicBoost);
+                }
+            }
+
+            // --- 4. Daily Integration ---
+            const moistAcc = new Float64Array(total);
+            const precipAcc = new Float64Array(total);
+            let evapSum = 0;
+            let precipSum = 0;
+
+            for (let s = 0; s < STEPS_PER_MONTH; s++) {
+                // 4a. Advection (semi-Lagrangian, backtrace from cell centres)
+                for (let r = 0; r < rows; r++) {
+                    for (let c = 0; c < cols; c++) {
+                        const i = r * cols + c;
+                        const cell = grid[i];
+                        const dx = cell.windU[m] * dtSec / cellWidthM[r];
+                        const dy = -cell.windV[m] * dtSec / cellHeightM;
+                        next[i] = sampleField(water, c - dx, r - dy, rows, cols);
+                    }
+                }
+                water.set(next);
+
+                // 4b. Sources and sinks
+                for (let r = 0; r < rows; r++) {
+                    const w = Math.cos(toRad(grid[r * cols].lat));
+                    for (let c = 0; c < cols; c++) {
+                        const i = r * cols + c;
+                        const cell = grid[i];
+
+                        let evap = evapPot[i] * dtDays;
+                        if (cell.isLand) {
+                            // Never more than the bucket holds, or the soil goes negative and the budget diverges
+                            evap = Math.min(soil[i], evap * soil[i] / SOIL_CAPACITY);
+                            soil[i] -= evap;
+                        }
+                        let wNew = water[i] + evap;
+
+                        // Rain-out: relaxation plus saturation excess
+                        let rain = wNew * (1 - Math.exp(-rainRate[i] * dtDays));
+                        wNew -= rain;
+                        if (wNew > satWater[i]) {
+                            const excess = (wNew - satWater[i]) * (1 - Math.exp(-SUPERSATURATION_RAIN_RATE * dtDays));
+                            rain += excess;
+                            wNew -= excess;
+                        }
+                        water[i] = wNew;
+
+                        if (cell.isLand) soil[i] = Math.min(SOIL_CAPACITY, soil[i] + rain);
+
+                        moistAcc[i] += wNew;
+                        precipAcc[i] += rain;
+                        evapSum += evap * w;
+                        precipSum += rain * w;
+                    }
+                }
+            }
+
+            if (record) {
+                for (let i = 0; i < total; i++) {
+                    grid[i].moisture[m] = moistAcc[i] / STEPS_PER_MONTH;
+                    grid[i].precip[m] = precipAcc[i];
+                }
+                monthlyEvap[m] = evapSum;
+                monthlyPrecip[m] = precipSum;
+            }
+        }
+    }
+
+    // --- 5. Diagnostics ---
+    let weightSum = 0;
+    let maxAnnualPrecip = 0;
+    for (let r = 0; r < rows; r++) {
+        const w = Math.cos(toRad(grid[r * cols].lat));
+        for (let c = 0; c < cols; c++) {
+            weightSum += w;
+            const annual = grid[r * cols + c].precip.reduce((a, b) => a + b, 0);
+            if (annual > maxAnnualPrecip) maxAnnualPrecip = annual;
+        }
+    }
+    const norm = weightSum > 0 ? 1 / weightSum : 0;
+
+    return {
+        globalPrecip: monthlyPrecip.reduce((a, b) => a + b, 0) * norm,
+        globalEvap: monthlyEvap.reduce((a, b) => a + b, 0) * norm,
+        maxAnnualPrecip
+    };
+};
@@ -0,0 +1,173 @@
+
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, ThermoResult, IceAlbedoResult, ClimateRegime, SeaIceResult } from '../../types';
+import { computeZonalClimate, computeRealTemp, buildZonalFrame, ZonalClimateResult, ZonalIceCover } from './thermodynamics';
+import { computeSeaIce, PERENNIAL_CONCENTRATION } from './seaIce';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+// --- Freezing threshold (annual mean cell temperature, K) ---
+const LAND_SNOW_TEMP = 263.15; // perennial snow / ice sheets below -10°C
+
+// --- Iteration ---
+const MAX_ICE_ITERATIONS = 15;
+const CONVERGENCE_CELL_FRACTION = 0.002; // stop when fewer cells than this flip state
+const SEA_ICE_CHANGE_TOLERANCE = 0.1; // annual mean concentration change that counts as a flip
+
+// --- Regime Classification ---
+const SNOWBALL_ICE_FRACTION = 0.9;
+const GLACIATED_ICE_FRACTION = 0.3;
+const ICE_FREE_FRACTION = 0.01;
+const HOTHOUSE_TEMP = 298.15; // ice-free and warmer than 25°C global mean
+
+export interface IceAlbedoOutput {
+    zonal: ZonalClimateResult;
+    globalTemp: number;
+    maxTemp: number;
+    minTemp: number;
+    thermo: ThermoResult;
+    ice: IceAlbedoResult;
+    seaIce: SeaIceResult;
+    iceCover: ZonalIceCover; // final per-row cover, reusable as a warm start
+}
+
+export const classifyRegime = (iceFraction: number, globalTemp: number): ClimateRegime => {
+    if (iceFraction >= SNOWBALL_ICE_FRACTION) return 'snowball';
+    if (iceFraction >= GLACIATED_ICE_FRACTION) return 'partially_glaciated';
+    if (iceFraction < ICE_FREE_FRACTION && globalTemp > HOTHOUSE_TEMP) return 'hothouse';
+    return 'temperate';
+};
+
+/**
+ * Step 5.3: Ice-Albedo Feedback
+ *
+ * Iterates the temperature step (5.1 zonal EBM + 5.2 surface temperature) with a per-cell ice mask.
+ * - A land cell is snow-covered when its annual mean temperature (after the lapse-rate correction) is below LAND_SNOW_TEMP.
+ * - Ocean cells run the Step 5.4 sea-ice model; ice that stays above PERENNIAL_CONCENTRATION all year counts as perennial.
+ * - Land snow is fed back into the EBM as a per-row fraction, sea ice as a per-row monthly concentration
+ *   (albedo and insulation).
+ * Starts ice-free (or from `initial`) and repeats until the mask stops changing, so cold planets can run away into a snowball.
+ * With `initial` the grid must still hold its ice mask and sea ice; they are the reference for the first change count.
+ * `maxIterations = 1` gives a single EBM + sea-ice pass (the cheap first guess that seeds the Step 2 pressure cells
+ * and the Step 3 ice walls).
+ */
+export const solveIceAlbedo = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    config: SimulationConfig,
+    initial?: IceAlbedoOutput, // warm start, e.g. the first-guess solve made before Step 2
+    maxIterations: number = MAX_ICE_ITERATIONS
+): IceAlbedoOutput => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const total = rows * cols;
+
+    let iceCover: ZonalIceCover = initial?.iceCover ?? {
+        land: new Array(rows).fill(0),
+        ocean: Array.from({ length: rows }, () => new Array(12).fill(0))
+    };
+    let zonal: ZonalClimateResult | undefined = initial?.zonal;
+    let temps: ReturnType<typeof computeRealTemp> | undefined;
+    let seaIce: SeaIceResult | undefined;
+    let iterations = 0;
+    let converged = false;
+    const prevConcentration = new Float64Array(total);
+    if (initial) {
+        for (let i = 0; i < total; i++) prevConcentration[i] = grid[i].seaIceConcentration.reduce((a, b) => a + b, 0) / 12;
+    }
+
+    // Cells of each EBM band (latitude rows, or substellar rings when tidally locked)
+    const frame = initial?.zonal.frame ?? buildZonalFrame(grid, planet, config);
+    const landCount = new Array(rows).fill(0);
+    for (let r = 0; r < rows; r++) {
+        for (let k = 0; k < cols; k++) if (grid[frame.samples[r * cols + k]].isLand) landCount[r]++;
+    }
+
+    for (let iter = 0; iter < maxIterations; iter++) {
+        iterations = iter + 1;
+        zonal = computeZonalClimate(grid, planet, atm, config, iceCover, zonal, frame);
+        temps = computeRealTemp(grid, zonal, atm, config);
+        seaIce = computeSeaIce(grid, planet, config);
+
+        // Re-mark ice per cell: land from the annual mean, ocean from the sea-ice cycle
+        let flipped = 0;
+        for (let i = 0; i < total; i++) {
+            const cell = grid[i];
+            let frozen: number;
+            if (cell.isLand) {
+                const annual = cell.temp.reduce((a, b) => a + b, 0) / 12;
+                frozen = annual < LAND_SNOW_TEMP ? 1 : 0;
+            } else {
+                frozen = Math.min(...cell.seaIceConcentration) >= PERENNIAL_CONCENTRATION ? 1 : 0;
+                // Seasonal ice counts as a change when its mean cover moves noticeably
+                const meanConc = cell.seaIceConcentration.reduce((a, b) => a + b, 0) / 12;
+                if (Math.abs(meanConc - prevConcentration[i]) > SEA_ICE_CHANGE_TOLERANCE && frozen === cell.iceCover) flipped++;
+                prevConcentration[i] = meanConc;
+            }
+            if (frozen !== cell.iceCover) flipped++;
+            cell.iceCover = frozen;
+        }
+
+        // Band means for the EBM
+        const landIce = new Array(rows).fill(0);
+        const oceanIce: number[][] = Array.from({ length: rows }, () => new Array(12).fill(0));
+        for (let r = 0; r < rows; r++) {
+            for (let k = 0; k < cols; k++) {
+                const cell = grid[frame.samples[r * cols + k]];
+                if (cell.isLand) landIce[r] += cell.iceCover;
+                else for (let m = 0; m < 12; m++) oceanIce[r][m] += cell.seaIceConcentration[m];
+            }
+        }
+
+        const oceanCount = landCount.map(n => cols - n);
+        iceCover = {
+            land: landIce.map((n, r) => landCount[r] > 0 ? n / landCount[r] : 0),
+            ocean: oceanIce.map((months, r) => months.map(v => oceanCount[r] > 0 ? v / oceanCount[r] : 0))
+        };
+
+        // A cold start runs its first pass ice-free, so only an unchanged mask counts as converged there
+        if (flipped === 0 || ((iter > 0 || initial) && flipped <= total * CONVERGENCE_CELL_FRACTION)) {
+            converged = true;
+            break;
+        }
+    }
+
+    // --- Diagnostics (area-weighted) ---
+    let area = 0, iceArea = 0, landArea = 0, landIceArea = 0, seaArea = 0, seaIceArea = 0;
+    for (let r = 0; r < rows; r++) {
+        const w = Math.cos(toRad(grid[r * cols].lat));
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            area += w;
+            iceArea += w * cell.iceCover;
+            if (cell.isLand) {
+                landArea += w;
+                landIceArea += w * cell.iceCover;
+            } else {
+                seaArea += w;
+                seaIceArea += w * cell.iceCover;
+            }
+        }
+    }
+
+    const iceFraction = area > 0 ? iceArea / area : 0;
+    const finalTemps = temps!;
+
+    return {
+        zonal: zonal!,
+        globalTemp: finalTemps.globalTemp,
+        maxTemp: finalTemps.maxTemp,
+        minTemp: finalTemps.minTemp,
+        thermo: finalTemps.thermo,
+        ice: {
+            iceFraction,
+            landIceFraction: landArea > 0 ? landIceArea / landArea : 0,
+            seaIceFraction: seaArea > 0 ? seaIceArea / seaArea : 0,
+            regime: classifyRegime(iceFraction, finalTemps.globalTemp),
+            iterations,
+            converged
+        },
+        seaIce: seaIce!,
+        iceCover
+    };
+};
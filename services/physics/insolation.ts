@@ -1,3 +1,293 @@
 
-// Logic removed per request.
-export const calculateInsolation = () => {};
+import { GridCell, PlanetParams, SimulationConfig, InsolationResult } from '../../types';
+import { isTidallyLocked, getEffectiveRotationPeriod, spinsAgainstOrbit, SUBSTELLAR_LON_DEG } from './tidalLock';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+
+// Solar constant at 1 AU for a star of 1 L_sun (W/m^2)
+const SOLAR_CONSTANT_REF = 1361.0;
+
+// Sub-samples per month used to integrate the daily-mean flux along the orbit
+const SAMPLES_PER_MONTH = 10;
+
+// Multiple stars: a close pair must be sampled several times per binary orbit to integrate its flux modulation
+const SAMPLES_PER_COMPANION_ORBIT = 8;
+const MAX_SAMPLES_PER_MONTH = 120;
+const MASS_LUMINOSITY_EXP = 0.25; // main sequence L ∝ M^4, used to place a P-type pair around its barycentre
+
+// Calendar anchor: Month 0 = January. The vernal equinox (true solar longitude = 0)
+// is pinned to its Earth calendar position (~Mar 20, day 79 of 365) so that
+// "January" keeps meaning "northern winter" regardless of the orbit shape.
+const EQUINOX_YEAR_FRACTION = 79 / 365;
+
+/**
+ * Solves Kepler's equation M = E - e sin(E) for the eccentric anomaly E.
+ */
+const solveKepler = (meanAnomaly: number, e: number): number => {
+    let E = e < 0.8 ? meanAnomaly : Math.PI;
+    for (let i = 0; i < 30; i++) {
+        const f = E - e * Math.sin(E) - meanAnomaly;
+        const fp = 1 - e * Math.cos(E);
+        const dE = f / fp;
+        E -= dE;
+        if (Math.abs(dE) < 1e-10) break;
+    }
+    return E;
+};
+
+const trueToMeanAnomaly = (trueAnomaly: number, e: number): number => {
+    const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(trueAnomaly / 2), Math.sqrt(1 + e) * Math.cos(trueAnomaly / 2));
+    return E - e * Math.sin(E);
+};
+
+export interface OrbitalPosition {
+    trueLongitude: number; // rad, 0 = vernal equinox
+    declination: number; // rad, latitude of the subsolar point
+    distance: number; // r / a
+}
+
+/**
+ * Position of the planet on its orbit at a given time of year.
+ * @param yearFraction 0.0 = Jan 1, 1.0 = end of year (wraps)
+ */
+export const getOrbitalPosition = (planet: PlanetParams, yearFraction: number): OrbitalPosition => {
+    const e = Math.min(Math.max(planet.eccentricity, 0), 0.99);
+    const perihelion = toRad(planet.perihelionAngle);
+    const obliquity = toRad(planet.obliquity);
+
+    // Mean motion in rad/hour. The time axis is measured in hours so that
+    // orbitalPeriod sets the calendar; the anomaly itself only depends on the phase.
+    const meanMotion = (2 * Math.PI) / planet.orbitalPeriod;
+    const tHours = (yearFraction - EQUINOX_YEAR_FRACTION) * planet.orbitalPeriod;
+
+    // Mean anomaly at the vernal equinox (true longitude 0 => true anomaly = -perihelion)
+    const meanAnomalyEquinox = trueToMeanAnomaly(-perihelion, e);
+    const meanAnomaly = meanAnomalyEquinox + meanMotion * tHours;
+
+    const E = solveKepler(((meanAnomaly % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI), e);
+    const trueAnomaly = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+    const distance = 1 - e * Math.cos(E);
+
+    const trueLongitude = trueAnomaly + perihelion;
+    const declination = Math.asin(Math.sin(obliquity) * Math.sin(trueLongitude));
+
+    return { trueLongitude, declination, distance };
+};
+
+/**
+ * Obliquity that sets the seasons (0..90°). Past 90° the axis is tipped beyond the orbital plane:
+ * sin(obliquity) and so the subsolar track are those of 180° - obliquity.
+ */
+export const getSeasonalObliquity = (planet: PlanetParams): number =>
+    planet.obliquity > 90 ? 180 - planet.obliquity : planet.obliquity;
+
+export interface StellarSource {
+    flux: number; // W/m^2 at normal incidence
+    declination: number; // rad
+    longitudeOffset: number; // rad, ecliptic longitude relative to the orbit centre as seen from the planet
+    temperature: number; // K
+}
+
+/**
+ * Every star as seen from the planet at a given orbital position.
+ * The planet orbits the barycentre of the primary and its P-type companions; S-type companions orbit the primary
+ * far outside and only add their own (distant) flux. All orbits are coplanar with the planet's.
+ */
+export const getStellarSources = (planet: PlanetParams, yearFraction: number, pos: OrbitalPosition): StellarSource[] => {
+    const obliquity = toRad(planet.obliquity);
+    const tHours = yearFraction * planet.orbitalPeriod;
+
+    // Star positions (AU) in the ecliptic plane, x toward the vernal equinox, origin at the centre of the planet's orbit
+    const primaryMass = Math.pow(Math.max(planet.solarLuminosity, 1e-6), MASS_LUMINOSITY_EXP);
+    const offsets = planet.companions.map(comp => {
+        const angle = 2 * Math.PI * tHours / Math.max(1e-6, comp.period) + toRad(comp.phase);
+        return { x: comp.separation * Math.cos(angle), y: comp.separation * Math.sin(angle) };
+    });
+    let totalMass = primaryMass, momentX = 0, momentY = 0;
+    planet.companions.forEach((comp, i) => {
+        if (comp.configuration !== 'P') return;
+        const mass = Math.pow(Math.max(comp.luminosity, 1e-6), MASS_LUMINOSITY_EXP);
+        totalMass += mass;
+        momentX += mass * offsets[i].x;
+        momentY += mass * offsets[i].y;
+    });
+    const primary = { x: -momentX / totalMass, y: -momentY / totalMass };
+
+    const stars = [
+        { x: primary.x, y: primary.y, luminosity: planet.solarLuminosity, temperature: planet.stellarTemperature },
+        ...planet.companions.map((comp, i) => ({
+            x: primary.x + offsets[i].x, y: primary.y + offsets[i].y, luminosity: comp.luminosity, temperature: comp.temperature
+        }))
+    ];
+
+    // The orbit centre lies at ecliptic longitude trueLongitude as seen from the planet
+    const r = pos.distance * planet.semiMajorAxis;
+    const px = -r * Math.cos(pos.trueLongitude);
+    const py = -r * Math.sin(pos.trueLongitude);
+
+    return stars.map(star => {
+        const dx = star.x - px;
+        const dy = star.y - py;
+        const d2 = Math.max(1e-12, dx * dx + dy * dy);
+        const longitude = Math.atan2(dy, dx);
+        return {
+            flux: SOLAR_CONSTANT_REF * star.luminosity / d2,
+            declination: Math.asin(Math.sin(obliquity) * Math.sin(longitude)),
+            longitudeOffset: longitude - pos.trueLongitude,
+            temperature: star.temperature
+        };
+    });
+};
+
+/**
+ * Daily-mean top-of-atmosphere insolation (W/m^2) at a latitude.
+ * Handles polar day / polar night via the sunset hour angle.
+ */
+export const dailyMeanInsolation = (solarConstant: number, latRad: number, declination: number, distance: number): number => {
+    const sinProd = Math.sin(latRad) * Math.sin(declination);
+    const cosProd = Math.cos(latRad) * Math.cos(declination);
+
+    let h0: number;
+    if (Math.abs(cosProd) < 1e-9) {
+        h0 = sinProd > 0 ? Math.PI : 0;
+    } else {
+        const cosH0 = -sinProd / cosProd;
+        if (cosH0 >= 1) h0 = 0; // Polar night
+        else if (cosH0 <= -1) h0 = Math.PI; // Polar day
+        else h0 = Math.acos(cosH0);
+    }
+
+    const q = (solarConstant / Math.PI) / (distance * distance) * (h0 * sinProd + cosProd * Math.sin(h0));
+    return Math.max(0, q);
+};
+
+/**
+ * Instantaneous top-of-atmosphere insolation (W/m^2) under a fixed star (synchronous rotation).
+ */
+export const substellarInsolation = (solarConstant: number, latRad: number, lonRad: number, declination: number, subLonRad: number, distance: number): number => {
+    const cosZenith = Math.sin(latRad) * Math.sin(declination) + Math.cos(latRad) * Math.cos(declination) * Math.cos(lonRad - subLonRad);
+    return Math.max(0, solarConstant / (distance * distance) * cosZenith);
+};
+
+/**
+ * Step 0.5: Orbital Insolation
+ *
+ * Monthly mean top-of-atmosphere insolation per cell.
+ * - Stellar flux from solarLuminosity and semiMajorAxis (inverse square).
+ * - Keplerian orbit (eccentricity, perihelionAngle) gives the true star distance for each month.
+ * - Obliquity gives the seasonal declination; the flux is the diurnal mean (rotation faster than a month).
+ * - Tidally locked planets keep the star fixed over SUBSTELLAR_LON_DEG instead: each cell gets the flux at its own
+ *   stellar zenith angle, so the night side stays dark and the map is no longer zonally uniform.
+ * - Companion stars (P-type pair or distant S-type companion) each add their own flux, declination and
+ *   (when locked) substellar longitude.
+ * Each month is integrated over SAMPLES_PER_MONTH positions along the orbit, or more when a companion
+ * orbits within a few months.
+ */
+export const calculateInsolation = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    config: SimulationConfig
+): InsolationResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+
+    const solarConstant = SOLAR_CONSTANT_REF * planet.solarLuminosity / Math.pow(planet.semiMajorAxis, 2);
+    const tidallyLocked = isTidallyLocked(planet);
+    const subLonRad = toRad(SUBSTELLAR_LON_DEG);
+
+    const latRad: number[] = [];
+    const cosLat: number[] = [];
+    for (let r = 0; r < rows; r++) {
+        const lat = grid[r * cols].lat;
+        latRad.push(toRad(lat));
+        cosLat.push(Math.cos(toRad(lat)));
+    }
+
+    const subsolarLatDeg: number[] = [];
+    const distanceAU: number[] = [];
+    const globalMeanFlux: number[] = [];
+    const peakFlux: number[] = [];
+    const minFlux: number[] = [];
+    const stellarTempK: number[] = [];
+
+    const monthHours = planet.orbitalPeriod / 12;
+    const shortestCompanionPeriod = Math.min(Infinity, ...planet.companions.map(comp => comp.period));
+    const samplesPerMonth = Math.min(MAX_SAMPLES_PER_MONTH, Math.max(SAMPLES_PER_MONTH,
+        Math.ceil(SAMPLES_PER_COMPANION_ORBIT * monthHours / shortestCompanionPeriod)));
+
+    const lonRad: number[] = [];
+    for (let c = 0; c < cols; c++) lonRad.push(toRad(grid[c].lon));
+
+    for (let m = 0; m < 12; m++) {
+        const rowFlux = new Float64Array(rows);
+        const cellFlux = tidallyLocked ? new Float64Array(rows * cols) : null;
+        let declSum = 0;
+        let distSum = 0;
+        let fluxMax = 0;
+        let fluxMin = Infinity;
+        let tempWeighted = 0;
+        let fluxSum = 0;
+
+        for (let s = 0; s < samplesPerMonth; s++) {
+            const yearFraction = (m + (s + 0.5) / samplesPerMonth) / 12;
+            const pos = getOrbitalPosition(planet, yearFraction);
+            declSum += pos.declination;
+            distSum += pos.distance;
+
+            const sources = getStellarSources(planet, yearFraction, pos);
+            let total = 0;
+            for (const src of sources) {
+                total += src.flux;
+                tempWeighted += src.flux * src.temperature;
+                for (let r = 0; r < rows; r++) {
+                    if (cellFlux) {
+                        for (let c = 0; c < cols; c++) {
+                            cellFlux[r * cols + c] += substellarInsolation(src.flux, latRad[r], lonRad[c], src.declination, subLonRad + src.longitudeOffset, 1);
+                        }
+                    } else {
+                        rowFlux[r] += dailyMeanInsolation(src.flux, latRad[r], src.declination, 1);
+                    }
+                }
+            }
+            fluxSum += total;
+            fluxMax = Math.max(fluxMax, total);
+            fluxMin = Math.min(fluxMin, total);
+        }
+
+        let weightedSum = 0;
+        let weightSum = 0;
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                const q = (cellFlux ? cellFlux[r * cols + c] : rowFlux[r]) / samplesPerMonth;
+                grid[r * cols + c].insolation[m] = q;
+                weightedSum += q * cosLat[r];
+                weightSum += cosLat[r];
+            }
+        }
+
+        subsolarLatDeg.push(toDeg(declSum / samplesPerMonth));
+        distanceAU.push((distSum / samplesPerMonth) * planet.semiMajorAxis);
+        globalMeanFlux.push(weightSum > 0 ? weightedSum / weightSum : 0);
+        peakFlux.push(fluxMax);
+        minFlux.push(fluxMin);
+        stellarTempK.push(fluxSum > 0 ? tempWeighted / fluxSum : planet.stellarTemperature);
+    }
+
+    // Length of the solar day (hours). Spin against the orbit (retrograde or obliquity > 90°) adds to the orbital motion.
+    const spin = (spinsAgainstOrbit(planet) && !tidallyLocked ? -1 : 1) / getEffectiveRotationPeriod(planet);
+    const synodicRate = spin - 1 / planet.orbitalPeriod;
+    const solarDayHours = Math.abs(synodicRate) > 1e-12 ? Math.abs(1 / synodicRate) : null;
+
+    return {
+        solarConstant,
+        subsolarLatDeg,
+        distanceAU,
+        globalMeanFlux,
+        solarDayHours,
+        tidallyLocked,
+        peakFlux,
+        minFlux,
+        stellarTempK
+    };
+};
@@ -1,6 +1,7 @@
 
 
-import { GridCell, SimulationConfig, PhysicsParams, OceanStreamline, StreamlinePoint, OceanImpact, OceanDiagnosticLog, DebugSimulationData, DebugFrame, DebugAgentSnapshot, PlanetParams } from '../../types';
+import { GridCell, SimulationConfig, PhysicsParams, OceanStreamline, StreamlinePoint, OceanImpact, OceanDiagnosticLog, DebugSimulationData, DebugFrame, DebugAgentSnapshot, PlanetParams, CellLayout } from '../../types';
+import { buildAnnualCellLayout } from './windBelts';
 
 // Extended Agent Interface for Physics & Debugging
 interface Agent {
@@ -11,7 +12,8 @@ interface Agent {
   vx: number;
   vy: number;
   strength: number;
-  type: 'ECC' | 'EC_N' | 'EC_S';
+  type: 'ECC' | 'EC_N' | 'EC_S' | 'GYRE_N' | 'GYRE_S' | 'ACC';
+  phase?: 'boundary' | 'drift' | 'return'; // Pass 3 only
   
   // Lifecycle / Debug State
   state: 'active' | 'dead' | 'stuck' | 'impact' | 'crawling';
@@ -29,6 +31,34 @@ interface ImpactPointTemp {
   lon: number;
 }
 
+interface GyreSpawnTemp {
+  x: number;
+  y: number;
+  hemisphere: 'N' | 'S';
+}
+
+// --- Pass 3 (Gyre) Tuning ---
+const GYRE_WESTERLY_FRAC = 0.4; // drift latitude as a fraction of the way across the westerly (Ferrel) belt
+const GYRE_BOUNDARY_SPEED_MULT = 1.5; // western boundary currents run faster than the interior flow
+const GYRE_SPAWN_MIN_SPACING = 2.0; // grid cells between gyre seeds on the same coast
+const GYRE_JOIN_LAT_TOLERANCE = 2.0; // degrees from the EC target latitude at which a return flow ends
+
+interface CircumpolarBandTemp {
+  rowStart: number;
+  rowEnd: number; // inclusive
+}
+
+// --- Pass 4 (Circumpolar) Tuning ---
+const CIRCUMPOLAR_OPEN_THRESHOLD = 0.0; // collision field value below which a cell is open water
+const CIRCUMPOLAR_MAX_BARRIER_KM = 500; // island chains narrower than this are flowed around, not a barrier
+const CIRCUMPOLAR_WESTERLY_MARGIN_DEG = 12; // surface westerly stress reaches past the poleward edge of the Ferrel belt
+const CIRCUMPOLAR_MIN_BAND_ROWS = 2; // narrower gaps are treated as straits, not bands
+const CIRCUMPOLAR_LANE_ROWS = 4; // one agent per this many rows of band width
+const CIRCUMPOLAR_SPEED_MULT = 1.2; // wind-driven flow with no boundary to pile up against
+
+// --- Sea-Ice Walls ---
+const SEA_ICE_WALL_CONCENTRATION = 0.5; // Step 5.4 cover above which currents treat the surface as closed
+
 const createSeededRandom = (seed: number) => {
   let state = (seed >>> 0) || 0x6d2b79f5;
   return () => {
@@ -46,14 +76,16 @@ export const computeOceanCurrents = (
   phys: PhysicsParams,
   config: SimulationConfig,
   planet: PlanetParams,
-  debugMonth?: number // Optional: If provided, generates DebugSimulationData for this month
+  debugMonth?: number, // Optional: If provided, generates DebugSimulationData for this month
+  cellLayouts?: CellLayout[] // [Month] Step 2 circulation cells; Pass 3 drifts under the first westerly belt of each hemisphere, Pass 4 looks for open westerly bands
 ): { streamlines: OceanStreamline[][], impacts: OceanImpact[][], diagnostics: OceanDiagnosticLog[], debugData?: DebugSimulationData } => {
   const streamlinesByMonth: OceanStreamline[][] = [];
   const impactsByMonth: OceanImpact[][] = [];
   const diagnostics: OceanDiagnosticLog[] = [];
   
   // If debugMonth is specified, we focus logic on that month for detailed capture
-  const targetMonths = debugMonth !== undefined ? [debugMonth] : [0, 6]; 
+  // Otherwise every month is simulated, reusing the collision field and gradients computed below.
+  const targetMonths = debugMonth !== undefined ? [debugMonth] : Array.from({ length: 12 }, (_, m) => m);
   
   const rows = config.resolutionLat;
   const cols = config.resolutionLon;
@@ -69,58 +101,90 @@ export const computeOceanCurrents = (
   const getRowFromLat = (lat: number) => (90 - lat) / 180 * (rows - 1);
   const getLonFromCol = (c: number) => -180 + (c / cols) * 360;
 
+  // Westerly belts of a month's Step 2 layout as signed latitude bands (Earth-like three cells when none is given)
+  const defaultLayout = buildAnnualCellLayout([30, 60, 90], false);
+  const westerlyBandsOf = (layout: CellLayout): [number, number][] => {
+      const bands: [number, number][] = [];
+      layout.westerly.forEach((isWesterly, j) => {
+          if (isWesterly) bands.push([j > 0 ? layout.boundariesDeg[j - 1] : -90, j < layout.boundariesDeg.length ? layout.boundariesDeg[j] : 90]);
+      });
+      return bands;
+  };
+
+  // Zonal sense of the circulation: +1 when the ECC runs east and the EC west (prograde rotation).
+  // A retrograde planet mirrors every east/west rule below (ECC westward, western boundary currents on eastern shores).
+  const ew = planet.isRetrograde ? -1 : 1;
+
   // --- STEP 2.0: Generate Collision Field ---
-  
-  let collisionField = new Float32Array(rows * cols);
-  for(let i=0; i<grid.length; i++) {
-      // Positive = Land/Wall, Negative = Ocean
-      // Increase buffer slightly to allow smoother sliding
-      collisionField[i] = grid[i].distCoast + phys.oceanCollisionBuffer;
-  }
+  // Built once from the coastline; months with Step 5.4 sea ice rebuild it with the pack ice as extra wall.
+
+  const buildCollisionField = (iceMonth?: number) => {
+      let field = new Float32Array(rows * cols);
+      for(let i=0; i<grid.length; i++) {
+          // Positive = Land/Wall, Negative = Ocean
+          // Increase buffer slightly to allow smoother sliding
+          field[i] = grid[i].distCoast + phys.oceanCollisionBuffer;
+          // Closed pack ice behaves like a coastline
+          if (iceMonth !== undefined && !grid[i].isLand && grid[i].seaIceConcentration[iceMonth] >= SEA_ICE_WALL_CONCENTRATION) {
+              field[i] = Math.max(field[i], phys.oceanCollisionBuffer);
+          }
+      }
 
-  // Smooth Field
-  for(let iter=0; iter<phys.oceanSmoothing; iter++) {
-      const nextField = new Float32Array(rows * cols);
-      for(let r=0; r<rows; r++) {
-          for(let c=0; c<cols; c++) {
-              let sum = 0;
-              let count = 0;
-              for(let dr=-1; dr<=1; dr++) {
-                  for(let dc=-1; dc<=1; dc++) {
-                      const nr = Math.min(Math.max(r+dr, 0), rows-1);
-                      const nc = ((c+dc) % cols + cols) % cols;
-                      sum += collisionField[nr*cols + nc];
-                      count++;
+      // Smooth Field
+      for(let iter=0; iter<phys.oceanSmoothing; iter++) {
+          const nextField = new Float32Array(rows * cols);
+          for(let r=0; r<rows; r++) {
+              for(let c=0; c<cols; c++) {
+                  let sum = 0;
+                  let count = 0;
+                  for(let dr=-1; dr<=1; dr++) {
+                      for(let dc=-1; dc<=1; dc++) {
+                          const nr = Math.min(Math.max(r+dr, 0), rows-1);
+                          const nc = ((c+dc) % cols + cols) % cols;
+                          sum += field[nr*cols + nc];
+                          count++;
+                      }
                   }
+                  nextField[r*cols + c] = sum / count;
               }
-              nextField[r*cols + c] = sum / count;
           }
+          field = nextField;
       }
-      collisionField = nextField;
-  }
 
-  // Store for Visualization (Main App)
-  for(let i=0; i<grid.length; i++) {
-      grid[i].collisionMask = collisionField[i];
-  }
-  
-  // Compute Gradients (Point TOWARDS higher values = Land)
-  const distGradX = new Float32Array(rows * cols);
-  const distGradY = new Float32Array(rows * cols);
-  
-  for(let r=0; r<rows; r++) {
-      for(let c=0; c<cols; c++) {
-          const idx = r*cols + c;
-          const idxLeft = getIdx(c-1, r);
-          const idxRight = getIdx(c+1, r);
-          const idxUp = getIdx(c, r-1);
-          const idxDown = getIdx(c, r+1);
-          
-          distGradX[idx] = (collisionField[idxRight] - collisionField[idxLeft]) * 0.5;
-          distGradY[idx] = (collisionField[idxDown] - collisionField[idxUp]) * 0.5; 
+      // Compute Gradients (Point TOWARDS higher values = Land)
+      const gradX = new Float32Array(rows * cols);
+      const gradY = new Float32Array(rows * cols);
+
+      for(let r=0; r<rows; r++) {
+          for(let c=0; c<cols; c++) {
+              const idx = r*cols + c;
+              const idxLeft = getIdx(c-1, r);
+              const idxRight = getIdx(c+1, r);
+              const idxUp = getIdx(c, r-1);
+              const idxDown = getIdx(c, r+1);
+
+              gradX[idx] = (field[idxRight] - field[idxLeft]) * 0.5;
+              gradY[idx] = (field[idxDown] - field[idxUp]) * 0.5;
+          }
       }
+
+      return { field, gradX, gradY };
+  };
+
+  const baseField = buildCollisionField();
+  const monthHasIce = Array.from({ length: 12 }, (_, m) =>
+      grid.some(cell => !cell.isLand && cell.seaIceConcentration[m] >= SEA_ICE_WALL_CONCENTRATION));
+
+  // Store for Visualization (Main App) - coastline only, ice moves with the month
+  for(let i=0; i<grid.length; i++) {
+      grid[i].collisionMask = baseField.field[i];
   }
 
+  // Active field of the month being simulated (read by the helpers below)
+  let collisionField = baseField.field;
+  let distGradX = baseField.gradX;
+  let distGradY = baseField.gradY;
+
   const getEnvironment = (x: number, y: number) => {
       const c = Math.floor(x);
       const r = Math.floor(y);
@@ -155,18 +219,98 @@ export const computeOceanCurrents = (
       // Convert km to cells
       const offsetCells = offsetKm / kmPerCell;
       
-      // Backtrack West until safe
+      // Backtrack upstream of the ECC (west for prograde) until safe
       const maxSearch = 60; 
       let currX = startX;
       for(let i=0; i<maxSearch; i++) {
           const env = getEnvironment(currX, y);
           // If we found deep ocean
-          if (env.dist < -30.0) return currX - offsetCells; 
-          currX -= 1.0;
+          if (env.dist < -30.0) return currX - ew * offsetCells; 
+          currX -= ew;
       }
-      return startX - offsetCells;
+      return startX - ew * offsetCells;
   };
 
+  // --- Circumpolar Band Detection (Pass 4 input) ---
+  // A row is open when the collision field is water all the way around the planet, apart from
+  // island chains narrower than CIRCUMPOLAR_MAX_BARRIER_KM. Contiguous open rows inside a westerly
+  // belt form a band that carries a circumpolar current.
+  // Re-run every month (the belts move with the seasons, sea ice changes the field); each band is reported once.
+  const reportedBands = new Set<string>();
+  const detectCircumpolarBands = (westerlyBands: [number, number][]): CircumpolarBandTemp[] => {
+      const circumpolarBands: CircumpolarBandTemp[] = [];
+      // Westerly belts widened poleward by the margin
+      const isWesterlyLat = (lat: number) => westerlyBands.some(([lo, hi]) =>
+          (lo < 0 ? lat >= lo - CIRCUMPOLAR_WESTERLY_MARGIN_DEG : lat > lo)
+          && (hi > 0 ? lat <= hi + CIRCUMPOLAR_WESTERLY_MARGIN_DEG : lat < hi));
+      const rowOpen: boolean[] = [];
+      for (let r = 0; r < rows; r++) {
+          const lat = getLatFromRow(r);
+          if (!isWesterlyLat(lat)) { rowOpen.push(false); continue; }
+
+          const kmPerCell = (2 * Math.PI * planet.radius * Math.cos(lat * Math.PI / 180)) / cols;
+          const maxBarrierCells = Math.floor(CIRCUMPOLAR_MAX_BARRIER_KM / Math.max(0.1, kmPerCell));
+          const blocked = (c: number) => collisionField[r * cols + ((c % cols) + cols) % cols] >= CIRCUMPOLAR_OPEN_THRESHOLD;
+
+          // Start scanning from a water cell so runs that wrap around the date line are measured whole
+          let origin = -1;
+          for (let c = 0; c < cols; c++) if (!blocked(c)) { origin = c; break; }
+          let open = origin >= 0;
+          let run = 0;
+          for (let k = 1; k <= cols && open; k++) {
+              run = blocked(origin + k) ? run + 1 : 0;
+              if (run > maxBarrierCells) open = false;
+          }
+          rowOpen.push(open);
+      }
+
+      let start = -1;
+      for (let r = 0; r <= rows; r++) {
+          const open = r < rows && rowOpen[r] && (start < 0 || Math.sign(getLatFromRow(r)) === Math.sign(getLatFromRow(start)));
+          if (open && start < 0) start = r;
+          if (!open && start >= 0) {
+              const end = r - 1;
+              if (end - start + 1 >= CIRCUMPOLAR_MIN_BAND_ROWS) {
+                  const latA = getLatFromRow(start);
+                  const latB = getLatFromRow(end);
+                  const bandLabel = `${Math.min(latA, latB).toFixed(1)}°..${Math.max(latA, latB).toFixed(1)}°`;
+
+                  // Islands tolerated per row must not line up into a wall across the whole band
+                  let wallCol = -1;
+                  for (let c = 0; c < cols && wallCol < 0; c++) {
+                      let gap = false;
+                      for (let rr = start; rr <= end && !gap; rr++) {
+                          if (collisionField[rr * cols + c] < CIRCUMPOLAR_OPEN_THRESHOLD) gap = true;
+                      }
+                      if (!gap) wallCol = c;
+                  }
+
+                  const reportKey = `${start}-${end}-${wallCol < 0 ? 'open' : 'closed'}`;
+                  const isNew = !reportedBands.has(reportKey);
+                  reportedBands.add(reportKey);
+
+                  if (wallCol < 0) {
+                      circumpolarBands.push({ rowStart: start, rowEnd: end });
+                      if (isNew) diagnostics.push({
+                          type: 'CIRCUMPOLAR_BAND', x: 0, y: (start + end) / 2,
+                          lat: (latA + latB) / 2, lon: 0, age: 0,
+                          message: `Open band ${bandLabel} (${end - start + 1} rows)`
+                      });
+                  } else if (isNew) {
+                      diagnostics.push({
+                          type: 'CIRCUMPOLAR_BREACH', x: wallCol, y: (start + end) / 2,
+                          lat: (latA + latB) / 2, lon: getLonFromCol(wallCol), age: 0,
+                          message: `Band ${bandLabel} closed by a barrier spanning its width`
+                      });
+                  }
+              }
+              start = r < rows && rowOpen[r] ? r : -1;
+          }
+      }
+      return circumpolarBands;
+  };
+
+
   // --- Debug Data Holder ---
   let collectedDebugData: DebugSimulationData | undefined = undefined;
 
@@ -174,6 +318,13 @@ export const computeOceanCurrents = (
 
   for (const m of targetMonths) {
     const isDebugRun = (debugMonth === m);
+    if (monthHasIce[m]) {
+        ({ field: collisionField, gradX: distGradX, gradY: distGradY } = buildCollisionField(m));
+    } else {
+        ({ field: collisionField, gradX: distGradX, gradY: distGradY } = baseField);
+    }
+    const westerlyBands = westerlyBandsOf(cellLayouts?.[m] ?? defaultLayout);
+    const circumpolarBands = detectCircumpolarBands(westerlyBands);
     const monthSeed = (config.seed >>> 0) ^ Math.imul(m + 1, 0x9e3779b1);
     const random = createSeededRandom(monthSeed);
     const debugFrames: DebugFrame[] = [];
@@ -256,16 +407,17 @@ export const computeOceanCurrents = (
       const env = getEnvironment(c, r);
       if (env.dist > -20) continue; 
 
-      const westIdx = getIdx(c - 1, Math.round(r));
-      const westIsWall = collisionField[westIdx] > 0;
+      // Upstream neighbour (west for prograde): the ECC starts off the coast it flows away from
+      const upstreamIdx = getIdx(c - ew, Math.round(r));
+      const upstreamIsWall = collisionField[upstreamIdx] > 0;
 
       let shouldSpawn = false;
-      if (westIsWall) shouldSpawn = true;
+      if (upstreamIsWall) shouldSpawn = true;
       else if (c % gapFillInterval === 0) shouldSpawn = true;
 
       if (shouldSpawn) {
           eccAgents.push({
-              id: nextAgentId++, active: true, x: c, y: r, vx: phys.oceanBaseSpeed, vy: 0.0, strength: 2.0, type: 'ECC',
+              id: nextAgentId++, active: true, x: c, y: r, vx: ew * phys.oceanBaseSpeed, vy: 0.0, strength: 2.0, type: 'ECC',
               state: 'active', age: 0, 
               history: []
           });
@@ -359,8 +511,8 @@ export const computeOceanCurrents = (
                     const { dist: currentDist, gx: currentGx, gy: currentGy } = getEnvironment(agent.x, agent.y);
                     const isNearCoast = currentDist > -60;
 
-                    // ECC flows East (+vx). If Gradient X > 0.2 (Land is East), we are blocked.
-                    const isBlockedByLand = isNearCoast && currentGx > 0.2;
+                    // ECC flows East (+vx, mirrored by ew). If Gradient X > 0.2 (Land is downstream), we are blocked.
+                    const isBlockedByLand = isNearCoast && currentGx * ew > 0.2;
                     const isFarFromTarget = Math.abs(agent.y - targetY) > 2.0;
 
                     let ax = 0;
@@ -400,7 +552,7 @@ export const computeOceanCurrents = (
                     } else {
                         // Standard Flow (Eastward + ITCZ Attraction)
                         agent.state = 'active';
-                        const baseSpeed = phys.oceanBaseSpeed; // Eastward
+                        const baseSpeed = ew * phys.oceanBaseSpeed; // Eastward (westward when retrograde)
                         
                         ax = (baseSpeed - agent.vx) * phys.oceanInertiaX;
                         // Use oceanPatternForce for ECC (not EcPatternForce)
@@ -432,9 +584,9 @@ export const computeOceanCurrents = (
                         const nx = gradLen > 0 ? newGx / gradLen : 0;
                         const ny = gradLen > 0 ? newGy / gradLen : 0;
                         
-                        // Impact Detection: Moving East (+vx) into East-facing wall (+nx)
+                        // Impact Detection: Moving East (+vx) into East-facing wall (+nx), mirrored by ew
                         // Use same strictness as EC but mirrored
-                        const isImpact = (nvx > 0.1 && nx > 0.2); 
+                        const isImpact = (nvx * ew > 0.1 && nx * ew > 0.2); 
 
                         if (isImpact) {
                             // Register Impact
@@ -520,6 +672,8 @@ export const computeOceanCurrents = (
         }];
     }
 
+    const gyreSpawns: GyreSpawnTemp[] = [];
+
     const startStepPhase2 = debugFrames.length;
     const stepsRemaining = BASE_MAX_STEPS - stepsUsedECC;
     const MAX_STEPS_EC = BASE_MAX_STEPS + stepsRemaining;
@@ -570,7 +724,7 @@ export const computeOceanCurrents = (
             }
             
             if (isStuck) {
-                const { dist } = getEnvironment(agent.x, agent.y);
+                const { dist, gx } = getEnvironment(agent.x, agent.y);
                 
                 agent.active = false; 
                 agent.state = 'impact'; // Treat stagnation as arrival/impact
@@ -578,6 +732,11 @@ export const computeOceanCurrents = (
                 
                 // Add to visual impacts
                 impactResults.push({ x: agent.x, y: agent.y, lat: getLatFromRow(agent.y), lon: getLonFromCol(agent.x), type: 'EC' });
+
+                // Held off a coast to the west (east when retrograde): the western boundary of the basin seeds a gyre
+                if (dist > -60 && gx * ew < 0) {
+                    gyreSpawns.push({ x: agent.x, y: agent.y, hemisphere: agent.type === 'EC_N' ? 'N' : 'S' });
+                }
                 continue;
             }
 
@@ -598,7 +757,7 @@ export const computeOceanCurrents = (
                     const { dist: currentDist, gx: currentGx, gy: currentGy } = getEnvironment(agent.x, agent.y);
                     const isNearCoast = currentDist > -60;
                     const isFarFromTarget = latDiff > 2.0;
-                    const isTrappedOnWestCoast = isNearCoast && currentGx > -0.2; 
+                    const isTrappedOnWestCoast = isNearCoast && currentGx * ew > -0.2; 
 
                     let ax = 0;
                     let ay = 0;
@@ -632,7 +791,7 @@ export const computeOceanCurrents = (
 
                     } else {
                         agent.state = 'active'; // Flowing
-                        const baseWestwardSpeed = -phys.oceanBaseSpeed * 1.0;
+                        const baseWestwardSpeed = -ew * phys.oceanBaseSpeed * 1.0;
                         // Use Param
                         ax = (baseWestwardSpeed - agent.vx) * phys.oceanInertiaX;
 
@@ -667,12 +826,13 @@ export const computeOceanCurrents = (
                         const nx = gradLen > 0 ? newGx / gradLen : 0;
                         const ny = gradLen > 0 ? newGy / gradLen : 0;
                         
-                        const isArrival = (nvx < -0.1 && nx < -0.2); 
+                        const isArrival = (nvx * ew < -0.1 && nx * ew < -0.2); 
 
                         if (isArrival) {
                             if (random() < 0.2) { 
                                 impactResults.push({ x: nextX, y: nextY, lat: getLatFromRow(nextY), lon: getLonFromCol(nextX), type: 'EC' });
                             }
+                            gyreSpawns.push({ x: agent.x, y: agent.y, hemisphere: agent.type === 'EC_N' ? 'N' : 'S' });
                             agent.active = false; agent.state = 'dead'; agent.cause = "Arrival (West Coast)";
                             
                             if (agent.age < 20) {
@@ -737,6 +897,356 @@ export const computeOceanCurrents = (
         }
     }
 
+    // --- PASS 3: Subtropical Gyre (Western Boundary Current -> Westerly Drift -> Eastern Boundary Return) ---
+    // EC flows that arrive at the western edge of a basin turn poleward along the coast,
+    // leave it under the westerlies and drift east until the far coast turns them back equatorward.
+
+    // Drift |lat| per hemisphere inside the first westerly belt off the equator. A hemisphere without one
+    // (a single planet-wide cell when tidally locked) has no westerlies to close a gyre.
+    const driftLatOf = (bands: [number, number][]) => bands.length > 0
+        ? bands[0][0] + (bands[0][1] - bands[0][0]) * GYRE_WESTERLY_FRAC
+        : undefined;
+    const gyreDriftLat: Record<'N' | 'S', number | undefined> = {
+        N: driftLatOf(westerlyBands.filter(([lo]) => lo >= 0)),
+        S: driftLatOf(westerlyBands.filter(([, hi]) => hi <= 0).map(([lo, hi]): [number, number] => [-hi, -lo]).reverse())
+    };
+
+    const gyreAgents: Agent[] = [];
+    const acceptedSpawns: GyreSpawnTemp[] = [];
+    for (const sp of gyreSpawns.filter(sp => gyreDriftLat[sp.hemisphere] !== undefined)) {
+        const tooClose = acceptedSpawns.some(o => o.hemisphere === sp.hemisphere
+            && Math.abs(o.y - sp.y) < GYRE_SPAWN_MIN_SPACING
+            && Math.min(Math.abs(o.x - sp.x), cols - Math.abs(o.x - sp.x)) < GYRE_SPAWN_MIN_SPACING);
+        if (tooClose) continue;
+        acceptedSpawns.push(sp);
+        gyreAgents.push({
+            id: nextAgentId++, active: true, x: sp.x, y: sp.y,
+            vx: 0, vy: sp.hemisphere === 'N' ? -phys.oceanBaseSpeed : phys.oceanBaseSpeed,
+            strength: 2.0, type: sp.hemisphere === 'N' ? 'GYRE_N' : 'GYRE_S', phase: 'boundary',
+            state: 'active', age: 0, history: []
+        });
+    }
+
+    const gyreSegments: { points: StreamlinePoint[], phase: 'boundary' | 'drift' | 'return', strength: number }[] = [];
+    const gyrePoints: StreamlinePoint[][] = [];
+    for (const a of gyreAgents) {
+        gyrePoints[a.id] = [{ x: a.x, y: a.y, lon: getLonFromCol(a.x), lat: getLatFromRow(a.y), vx: a.vx, vy: a.vy }];
+    }
+
+    const closeSegment = (agent: Agent) => {
+        const pts = gyrePoints[agent.id];
+        if (pts && pts.length > 5 && agent.phase) {
+            gyreSegments.push({ points: pts, phase: agent.phase, strength: agent.strength });
+        }
+        const last = pts && pts.length > 0 ? pts[pts.length - 1] : undefined;
+        gyrePoints[agent.id] = last ? [last] : [];
+    };
+
+    // Coast-parallel direction whose meridional component has the requested sign (dirY: -1 = north, +1 = south)
+    const coastTangent = (gx: number, gy: number, dirY: number) => {
+        const gradLen = Math.sqrt(gx * gx + gy * gy);
+        if (gradLen < 0.0001) return null;
+        const nx = gx / gradLen;
+        const ny = gy / gradLen;
+        const t1 = { tx: -ny, ty: nx };
+        const t2 = { tx: ny, ty: -nx };
+        const best = t1.ty * dirY > t2.ty * dirY ? t1 : t2;
+        return { ...best, nx, ny };
+    };
+
+    const startStepPhase3 = debugFrames.length;
+
+    // ================= GYRE LOOP =================
+    for (let step = 0; step < BASE_MAX_STEPS; step++) {
+        const frameSnapshot: DebugAgentSnapshot[] = [];
+        if (gyreAgents.every(a => !a.active)) break;
+
+        for (const agent of gyreAgents) {
+            if (!agent.active) {
+                if (isDebugRun) {
+                    frameSnapshot.push({
+                        id: agent.id, type: agent.type, x: agent.x, y: agent.y, vx: agent.vx, vy: agent.vy,
+                        state: agent.state, cause: agent.cause
+                    });
+                }
+                continue;
+            }
+
+            if (gyrePoints[agent.id].length > 5) {
+                const shouldPrune = updateAndCheckPruning(agent.x, agent.y, agent.vx, agent.vy);
+                if (shouldPrune && agent.age > PRUNE_PROTECTION_AGE) {
+                    agent.active = false; agent.state = 'dead'; agent.cause = "Merged/Pruned";
+                    closeSegment(agent);
+                    continue;
+                }
+            }
+
+            // --- Robust Stagnation Check ---
+            agent.history.push({ x: agent.x, y: agent.y });
+            if (agent.history.length > HISTORY_SIZE) {
+                agent.history.shift();
+            }
+            if (agent.history.length === HISTORY_SIZE) {
+                const oldPos = agent.history[0];
+                const dx = Math.abs(agent.x - oldPos.x);
+                const dxWrap = Math.min(dx, cols - dx);
+                if (dxWrap + Math.abs(agent.y - oldPos.y) < STAGNATION_THRESHOLD) {
+                    agent.active = false; agent.state = 'stuck'; agent.cause = `Stagnation (Phase: ${agent.phase})`;
+                    closeSegment(agent);
+                    continue;
+                }
+            }
+
+            const poleDir = agent.type === 'GYRE_N' ? -1 : 1; // row direction toward the pole
+            const hemiSign = agent.type === 'GYRE_N' ? 1 : -1;
+            const westerlyLat = gyreDriftLat[agent.type === 'GYRE_N' ? 'N' : 'S'] ?? 90;
+            const driftY = getRowFromLat(hemiSign * westerlyLat);
+
+            for (let ss = 0; ss < SUB_STEPS; ss++) {
+                const lonIdx = Math.floor(((agent.x % cols) + cols) % cols);
+                const ecTargetLat = itcz[lonIdx] + hemiSign * phys.oceanEcLatGap;
+                const currentLat = getLatFromRow(agent.y);
+                const { dist: currentDist, gx: currentGx, gy: currentGy } = getEnvironment(agent.x, agent.y);
+                const isNearCoast = currentDist > -60;
+
+                // --- Phase Transitions ---
+                if (agent.phase === 'boundary' && Math.abs(currentLat) >= westerlyLat) {
+                    closeSegment(agent);
+                    agent.phase = 'drift';
+                } else if (agent.phase === 'drift' && isNearCoast && currentGx * ew > 0.2) {
+                    closeSegment(agent);
+                    agent.phase = 'return';
+                } else if (agent.phase === 'return' && Math.abs(currentLat - ecTargetLat) < GYRE_JOIN_LAT_TOLERANCE) {
+                    agent.active = false; agent.state = 'dead'; agent.cause = "Joined EC (Gyre Closed)";
+                    break;
+                }
+
+                let ax = 0;
+                let ay = 0;
+
+                if (agent.phase === 'boundary') {
+                    // Poleward along the western edge of the basin, hugging the coast
+                    agent.state = isNearCoast ? 'crawling' : 'active';
+                    const speed = phys.oceanBaseSpeed * GYRE_BOUNDARY_SPEED_MULT;
+                    const t = isNearCoast ? coastTangent(currentGx, currentGy, poleDir) : null;
+                    if (t) {
+                        ax = (t.tx * speed - agent.vx) * 0.2 - t.nx * 0.1;
+                        ay = (t.ty * speed - agent.vy) * 0.2 - t.ny * 0.1;
+                    } else {
+                        // Open water: keep poleward and lean west toward the boundary
+                        ax = (-0.3 * ew * phys.oceanBaseSpeed - agent.vx) * phys.oceanInertiaX;
+                        ay = (poleDir * speed - agent.vy) * 0.2;
+                    }
+                } else if (agent.phase === 'drift') {
+                    // Eastward under the westerlies, attracted to the drift latitude
+                    agent.state = 'active';
+                    ax = (ew * phys.oceanBaseSpeed - agent.vx) * phys.oceanInertiaX;
+                    ay = (driftY - agent.y) * phys.oceanEcPatternForce - agent.vy * phys.oceanEcDamping;
+                    if (isNearCoast) {
+                        const gradLen = Math.sqrt(currentGx * currentGx + currentGy * currentGy);
+                        if (gradLen > 0.0001) {
+                            const repulseStrength = phys.oceanRepulseStrength * (1.0 - (currentDist / -60));
+                            ax -= (currentGx / gradLen) * repulseStrength;
+                            ay -= (currentGy / gradLen) * repulseStrength;
+                        }
+                    }
+                } else {
+                    // Equatorward along the eastern edge of the basin
+                    agent.state = 'crawling';
+                    const crawlSpeed = phys.oceanBaseSpeed * phys.oceanCrawlSpeedMultiplier;
+                    const t = coastTangent(currentGx, currentGy, -poleDir);
+                    if (t && isNearCoast) {
+                        ax = (t.tx * crawlSpeed - agent.vx) * 0.2 - t.nx * 0.1;
+                        ay = (t.ty * crawlSpeed - agent.vy) * 0.2 - t.ny * 0.1;
+                    } else {
+                        ax = (-0.3 * ew * phys.oceanBaseSpeed - agent.vx) * phys.oceanInertiaX;
+                        ay = (-poleDir * crawlSpeed - agent.vy) * 0.2;
+                    }
+                }
+
+                // --- UPDATE ---
+                let nvx = agent.vx + ax;
+                let nvy = agent.vy + ay;
+                const nextX = agent.x + nvx * DT;
+                const nextY = agent.y + nvy * DT;
+
+                const { dist: distNew, gx: newGx, gy: newGy } = getEnvironment(nextX, nextY);
+                if (distNew > 0) {
+                    // Slide along the wall
+                    const gradLen = Math.sqrt(newGx * newGx + newGy * newGy);
+                    const nx = gradLen > 0 ? newGx / gradLen : 0;
+                    const ny = gradLen > 0 ? newGy / gradLen : 0;
+                    const vDotN = nvx * nx + nvy * ny;
+                    nvx = (nvx - vDotN * nx) * 0.9;
+                    nvy = (nvy - vDotN * ny) * 0.9;
+                    agent.x = nextX - nx * 0.1;
+                    agent.y = nextY - ny * 0.1;
+                } else {
+                    agent.x = nextX; agent.y = nextY;
+                }
+                agent.vx = nvx; agent.vy = nvy;
+
+                const speed = Math.sqrt(agent.vx * agent.vx + agent.vy * agent.vy);
+                const maxSpeed = phys.oceanBaseSpeed * phys.oceanMaxSpeedMultiplier;
+                if (speed > maxSpeed) {
+                    agent.vx = (agent.vx / speed) * maxSpeed;
+                    agent.vy = (agent.vy / speed) * maxSpeed;
+                }
+
+                if (Math.abs(getLatFromRow(agent.y)) > 88) {
+                    agent.active = false; agent.state = 'dead'; agent.cause = "Polar Exit"; break;
+                }
+            }
+
+            agent.age++;
+            gyrePoints[agent.id].push({
+                x: agent.x, y: agent.y, lon: getLonFromCol(agent.x), lat: getLatFromRow(agent.y), vx: agent.vx, vy: agent.vy
+            });
+            if (!agent.active) closeSegment(agent);
+
+            if (isDebugRun) {
+                frameSnapshot.push({
+                    id: agent.id, type: agent.type, x: agent.x, y: agent.y, vx: agent.vx, vy: agent.vy,
+                    state: agent.state, cause: agent.cause
+                });
+            }
+        }
+
+        if (isDebugRun) debugFrames.push({ step: startStepPhase3 + step, agents: frameSnapshot });
+    }
+
+    for (const agent of gyreAgents) {
+        if (agent.active) closeSegment(agent);
+    }
+
+    const GYRE_LINE_TYPES = { boundary: 'gyre_wbc', drift: 'gyre_drift', return: 'gyre_return' } as const;
+    for (const seg of gyreSegments) {
+        finishedLines.push({ points: seg.points, strength: seg.strength, type: GYRE_LINE_TYPES[seg.phase] });
+    }
+
+    // --- PASS 4: Circumpolar Current ---
+    // Open latitude bands under the westerlies carry an unbroken zonal flow around the planet.
+    const accAgents: Agent[] = [];
+    for (const band of circumpolarBands) {
+        const bandRows = band.rowEnd - band.rowStart + 1;
+        const lanes = Math.max(1, Math.floor(bandRows / CIRCUMPOLAR_LANE_ROWS));
+        for (let k = 0; k < lanes; k++) {
+            const y = band.rowStart + (k + 0.5) * bandRows / lanes - 0.5;
+            accAgents.push({
+                id: nextAgentId++, active: true, x: random() * cols, y,
+                vx: ew * phys.oceanBaseSpeed, vy: 0, strength: 2.0, type: 'ACC',
+                state: 'active', age: 0, history: []
+            });
+        }
+    }
+
+    const accPoints: StreamlinePoint[][] = [];
+    const accStart: { x: number, y: number }[] = [];
+    const accLane: number[] = []; // attractor row, moved by islands the flow has to pass
+    for (const a of accAgents) {
+        accPoints[a.id] = [{ x: a.x, y: a.y, lon: getLonFromCol(a.x), lat: getLatFromRow(a.y), vx: a.vx, vy: a.vy }];
+        accStart[a.id] = { x: a.x, y: a.y };
+        accLane[a.id] = a.y;
+    }
+
+    const startStepPhase4 = debugFrames.length;
+    const accMaxSteps = Math.max(BASE_MAX_STEPS, Math.ceil(cols / (phys.oceanBaseSpeed * CIRCUMPOLAR_SPEED_MULT * SUB_STEPS * DT)) * 2);
+
+    // ================= CIRCUMPOLAR LOOP =================
+    for (let step = 0; step < accMaxSteps; step++) {
+        const frameSnapshot: DebugAgentSnapshot[] = [];
+        if (accAgents.every(a => !a.active)) break;
+
+        for (const agent of accAgents) {
+            if (agent.active) {
+                for (let ss = 0; ss < SUB_STEPS; ss++) {
+                    const targetY = accLane[agent.id];
+                    const { dist: currentDist, gx: currentGx, gy: currentGy } = getEnvironment(agent.x, agent.y);
+
+                    let ax = (ew * phys.oceanBaseSpeed * CIRCUMPOLAR_SPEED_MULT - agent.vx) * phys.oceanInertiaX;
+                    let ay = (targetY - agent.y) * phys.oceanEcPatternForce - agent.vy * phys.oceanEcDamping;
+                    if (currentDist > -60) {
+                        const gradLen = Math.sqrt(currentGx * currentGx + currentGy * currentGy);
+                        if (gradLen > 0.0001) {
+                            const repulseStrength = phys.oceanRepulseStrength * (1.0 - (currentDist / -60));
+                            ax -= (currentGx / gradLen) * repulseStrength;
+                            ay -= (currentGy / gradLen) * repulseStrength;
+                        }
+                    }
+
+                    const nvx = agent.vx + ax;
+                    const nvy = agent.vy + ay;
+                    const nextX = agent.x + nvx * DT;
+                    const nextY = agent.y + nvy * DT;
+
+                    const { dist: distNew, gx: newGx, gy: newGy } = getEnvironment(nextX, nextY);
+                    if (distNew > 0) {
+                        // Island in the band: record the hit and slide around it
+                        if (random() < 0.2) {
+                            impactResults.push({ x: nextX, y: nextY, lat: getLatFromRow(nextY), lon: getLonFromCol(nextX), type: 'ACC' });
+                        }
+                        const gradLen = Math.sqrt(newGx * newGx + newGy * newGy);
+                        const nx = gradLen > 0 ? newGx / gradLen : 0;
+                        const ny = gradLen > 0 ? newGy / gradLen : 0;
+                        const vDotN = nvx * nx + nvy * ny;
+                        agent.vx = (nvx - vDotN * nx) * 0.9;
+                        agent.vy = (nvy - vDotN * ny) * 0.9;
+                        agent.x = nextX - nx * 0.1;
+                        agent.y = nextY - ny * 0.1;
+                        accLane[agent.id] = agent.y;
+                        continue;
+                    }
+
+                    agent.x = nextX; agent.y = nextY;
+                    agent.vx = nvx; agent.vy = nvy;
+                }
+
+                // --- Robust Stagnation Check ---
+                agent.history.push({ x: agent.x, y: agent.y });
+                if (agent.history.length > HISTORY_SIZE) {
+                    agent.history.shift();
+                }
+                if (agent.history.length === HISTORY_SIZE) {
+                    const oldPos = agent.history[0];
+                    if (Math.abs(agent.x - oldPos.x) + Math.abs(agent.y - oldPos.y) < STAGNATION_THRESHOLD) {
+                        // The band was judged open, so a blocked flow means the barrier estimate was wrong
+                        impactResults.push({ x: agent.x, y: agent.y, lat: getLatFromRow(agent.y), lon: getLonFromCol(agent.x), type: 'ACC' });
+                        diagnostics.push({
+                            type: 'CIRCUMPOLAR_BREACH', x: agent.x, y: agent.y, lat: getLatFromRow(agent.y), lon: getLonFromCol(agent.x),
+                            age: agent.age, message: `Circumpolar flow blocked (month ${m})`
+                        });
+                        agent.active = false; agent.state = 'stuck'; agent.cause = "Blocked in Band";
+                    }
+                }
+
+                agent.age++;
+                accPoints[agent.id].push({
+                    x: agent.x, y: agent.y, lon: getLonFromCol(agent.x), lat: getLatFromRow(agent.y), vx: agent.vx, vy: agent.vy
+                });
+
+                // One full lap closes the loop
+                if (agent.active && Math.abs(agent.x - accStart[agent.id].x) >= cols) {
+                    agent.active = false; agent.state = 'dead'; agent.cause = "Loop Closed";
+                }
+            }
+
+            if (isDebugRun) {
+                frameSnapshot.push({
+                    id: agent.id, type: agent.type, x: agent.x, y: agent.y, vx: agent.vx, vy: agent.vy,
+                    state: agent.state, cause: agent.cause
+                });
+            }
+        }
+
+        if (isDebugRun) debugFrames.push({ step: startStepPhase4 + step, agents: frameSnapshot });
+    }
+
+    for (const agent of accAgents) {
+        if (accPoints[agent.id].length > 5) {
+            finishedLines.push({ points: accPoints[agent.id], strength: agent.strength, type: 'circumpolar' });
+        }
+    }
+
     if (isDebugRun) {
         collectedDebugData = {
             frames: debugFrames,
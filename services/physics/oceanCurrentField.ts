@@ -0,0 +1,142 @@
+
+import { GridCell, OceanStreamline, PlanetParams, SimulationConfig } from '../../types';
+
+// --- Rasterization ---
+const SPLAT_SIGMA_KM = 300; // Gaussian footprint of one streamline point
+const MIN_SPLAT_SIGMA_CELLS = 0.75;
+const BACKGROUND_WEIGHT = 1.0; // sparse coverage fades toward zero instead of saturating
+
+/**
+ * Cyclic linear interpolation of missing months from the nearest simulated months on either side.
+ */
+const fillMissingMonths = (fields: (Float64Array | null)[], total: number): Float64Array[] => {
+    const available = fields.map((f, m) => (f ? m : -1)).filter(m => m >= 0);
+    return fields.map((field, m) => {
+        if (field) return field;
+        if (available.length === 0) return new Float64Array(total);
+
+        const before = available.filter(a => a < m);
+        const after = available.filter(a => a > m);
+        const prev = before.length > 0 ? before[before.length - 1] : available[available.length - 1] - 12;
+        const next = after.length > 0 ? after[0] : available[0] + 12;
+
+        const span = next - prev;
+        const t = span > 0 ? (m - prev) / span : 0;
+        const a = fields[(prev + 12) % 12]!;
+        const b = fields[next % 12]!;
+        const out = new Float64Array(total);
+        for (let i = 0; i < total; i++) out[i] = a[i] * (1 - t) + b[i] * t;
+        return out;
+    });
+};
+
+/**
+ * Step 3.2: Ocean Current Temperature Anomaly
+ *
+ * Rasterizes the Step 3 streamlines into a signed per-cell anomaly (-1..+1) for every month,
+ * using the colouring rule of docs/ocean_current_spec.md:
+ * - Sign: flow leaving the ITCZ (poleward, warm) is positive; flow approaching it (cold / return) is negative.
+ * - Magnitude: intensity = sin^2 of the flow angle against the zonal direction, so zonal flow carries little
+ *   anomaly and meridional flow the most (the spec's black-to-vivid curve, normalised by the local speed
+ *   instead of oceanEcPolewardDrift so slow boundary currents still register).
+ * The same splat also averages the streamline velocity into a per-cell current vector (the field the annual view
+ * averages over the year).
+ * Points are splatted with a small Gaussian and weighted by streamline strength. Months without streamlines
+ * are interpolated from the simulated ones. Only ocean cells receive a value; coastal land reads its
+ * neighbours through Step 3.4 (cell.coastalCurrent).
+ * Writes cell.oceanCurrent[month] and cell.oceanCurrentU/V[month].
+ */
+export const computeOceanCurrentField = (
+    grid: GridCell[],
+    streamlines: OceanStreamline[][],
+    itczLines: number[][],
+    planet: PlanetParams,
+    config: SimulationConfig
+): void => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const total = rows * cols;
+
+    // Footprint in cells (latitude spacing; longitude is treated the same for simplicity)
+    const cellHeightKm = (2 * Math.PI * planet.radius) / 360 * 180 / Math.max(1, rows - 1);
+    const sigma = Math.max(MIN_SPLAT_SIGMA_CELLS, SPLAT_SIGMA_KM / cellHeightKm);
+    const radius = Math.ceil(2 * sigma);
+
+    const monthly: (Float64Array | null)[] = [];
+    const monthlyU: (Float64Array | null)[] = [];
+    const monthlyV: (Float64Array | null)[] = [];
+    for (let m = 0; m < 12; m++) {
+        const lines = streamlines[m];
+        if (!lines || lines.length === 0) {
+            monthly.push(null);
+            monthlyU.push(null);
+            monthlyV.push(null);
+            continue;
+        }
+
+        const sum = new Float64Array(total);
+        const sumU = new Float64Array(total);
+        const sumV = new Float64Array(total);
+        const weight = new Float64Array(total);
+        const itcz = itczLines[m];
+
+        for (const line of lines) {
+            for (const p of line.points) {
+                const col = ((Math.floor(p.x) % cols) + cols) % cols;
+                const itczLat = itcz[col] || 0;
+                const vx = p.vx || 0;
+                const vy = p.vy || 0;
+                const speed = Math.sqrt(vx * vx + vy * vy);
+                if (speed < 1e-6) continue;
+
+                // Row index grows southward: vy < 0 moves north
+                const isLeaving = p.lat >= itczLat ? vy < 0 : vy > 0;
+                const intensity = Math.pow(Math.abs(vy) / speed, 2);
+                const value = isLeaving ? intensity : -intensity;
+
+                const pr = Math.round(p.y);
+                const pc = Math.round(p.x);
+                for (let dr = -radius; dr <= radius; dr++) {
+                    const r = pr + dr;
+                    if (r < 0 || r >= rows) continue;
+                    for (let dc = -radius; dc <= radius; dc++) {
+                        const c = ((pc + dc) % cols + cols) % cols;
+                        const i = r * cols + c;
+                        if (grid[i].isLand) continue;
+                        const dx = pc + dc - p.x;
+                        const dy = r - p.y;
+                        const w = line.strength * Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+                        sum[i] += w * value;
+                        sumU[i] += w * vx;
+                        sumV[i] -= w * vy; // northward
+                        weight[i] += w;
+                    }
+                }
+            }
+        }
+
+        const field = new Float64Array(total);
+        const fieldU = new Float64Array(total);
+        const fieldV = new Float64Array(total);
+        for (let i = 0; i < total; i++) {
+            field[i] = sum[i] / (weight[i] + BACKGROUND_WEIGHT);
+            fieldU[i] = sumU[i] / (weight[i] + BACKGROUND_WEIGHT);
+            fieldV[i] = sumV[i] / (weight[i] + BACKGROUND_WEIGHT);
+        }
+        monthly.push(field);
+        monthlyU.push(fieldU);
+        monthlyV.push(fieldV);
+    }
+
+    const filled = fillMissingMonths(monthly, total);
+    const filledU = fillMissingMonths(monthlyU, total);
+    const filledV = fillMissingMonths(monthlyV, total);
+    for (let i = 0; i < total; i++) {
+        const cell = grid[i];
+        for (let m = 0; m < 12; m++) {
+            cell.oceanCurrent[m] = filled[m][i];
+            cell.oceanCurrentU[m] = filledU[m][i];
+            cell.oceanCurrentV[m] = filledV[m][i];
+        }
+    }
+};
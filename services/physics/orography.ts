@@ -0,0 +1,143 @@
+
+import { GridCell, PlanetParams, SimulationConfig, OrographyResult } from '../../types';
+import { buildCellGeometry } from './gridGeometry';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// --- Windward Uplift ---
+const TERRAIN_SMOOTH_CELLS = 1; // box radius applied before taking the gradient
+const WINDWARD_UPLIFT_THRESHOLD = 0.005; // m/s, counts a cell as windward in the diagnostics
+
+// --- Rain Shadow ---
+const SHADOW_MAX_DISTANCE_KM = 1500; // how far upwind barriers are searched
+const SHADOW_HEIGHT_M = 1500; // barrier height (above the cell) that casts ~63% shadow
+const SHADOW_DECAY_KM = 800; // shadow fades with distance behind the crest
+const MIN_WIND_SPEED = 0.5; // m/s, calmer cells have no defined upwind side
+
+/**
+ * Step 4.2: Orographic Precipitation Field
+ *
+ * Uses the refined Step 4 winds and the terrain to mark where ranges wring out moisture:
+ * - Windward uplift: wind projected on the (lightly smoothed) terrain gradient, written to cell.orographicUplift (m/s).
+ *   Kept apart from the Step 4 cell.uplift so the airflow view and its maxUplift stay as Step 4 computed them.
+ * - Rain shadow: the highest barrier upwind, relative to the cell, discounted with distance behind it,
+ *   written to cell.rainShadow (0..1).
+ * Step 6 raises the rain-out rate with uplift and lowers it in the shadow.
+ */
+export const computeOrographicPrecip = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    config: SimulationConfig
+): OrographyResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const total = rows * cols;
+
+    // --- 1. Geometry ---
+    const { cellHeightKm, cellWidthKm } = buildCellGeometry(grid, planet, rows, cols);
+
+    // --- 2. Terrain ---
+    const height = new Float64Array(total);
+    for (let i = 0; i < total; i++) height[i] = grid[i].isLand ? Math.max(0, grid[i].elevation) : 0;
+
+    const smooth = new Float64Array(total);
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            let sum = 0, n = 0;
+            for (let dr = -TERRAIN_SMOOTH_CELLS; dr <= TERRAIN_SMOOTH_CELLS; dr++) {
+                const rr = r + dr;
+                if (rr < 0 || rr >= rows) continue;
+                for (let dc = -TERRAIN_SMOOTH_CELLS; dc <= TERRAIN_SMOOTH_CELLS; dc++) {
+                    sum += height[rr * cols + ((c + dc) % cols + cols) % cols];
+                    n++;
+                }
+            }
+            smooth[r * cols + c] = sum / n;
+        }
+    }
+
+    const gradX = new Float64Array(total); // m/m, eastward
+    const gradY = new Float64Array(total); // m/m, northward
+    for (let r = 0; r < rows; r++) {
+        const rN = Math.max(0, r - 1);
+        const rS = Math.min(rows - 1, r + 1);
+        for (let c = 0; c < cols; c++) {
+            const i = r * cols + c;
+            const cE = (c + 1) % cols;
+            const cW = (c - 1 + cols) % cols;
+            gradX[i] = (smooth[r * cols + cE] - smooth[r * cols + cW]) / (2 * cellWidthKm[r] * 1000);
+            gradY[i] = rS !== rN ? (smooth[rN * cols + c] - smooth[rS * cols + c]) / ((rS - rN) * cellHeightKm * 1000) : 0;
+        }
+    }
+
+    // --- 3. Monthly Uplift & Rain Shadow ---
+    const stepKm = cellHeightKm;
+    const maxSteps = Math.max(1, Math.ceil(SHADOW_MAX_DISTANCE_KM / stepKm));
+    let maxRainShadow = 0;
+
+    for (let m = 0; m < 12; m++) {
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                const i = r * cols + c;
+                const cell = grid[i];
+                const u = cell.windU[m];
+                const v = cell.windV[m];
+
+                cell.orographicUplift[m] = u * gradX[i] + v * gradY[i];
+
+                const speed = Math.sqrt(u * u + v * v);
+                if (speed < MIN_WIND_SPEED) {
+                    cell.rainShadow[m] = 0;
+                    continue;
+                }
+
+                // March upwind (against the wind) and keep the strongest barrier
+                const ux = u / speed;
+                const uy = v / speed;
+                let x = c;
+                let y = r;
+                let shadow = 0;
+                for (let s = 1; s <= maxSteps; s++) {
+                    const row = clamp(Math.round(y), 0, rows - 1);
+                    x -= ux * stepKm / cellWidthKm[row];
+                    y += uy * stepKm / cellHeightKm;
+                    if (y < 0 || y > rows - 1) break;
+
+                    const sr = Math.round(y);
+                    const sc = ((Math.round(x) % cols) + cols) % cols;
+                    const excess = height[sr * cols + sc] - height[i];
+                    if (excess <= 0) continue;
+
+                    const dist = s * stepKm;
+                    const contribution = (1 - Math.exp(-excess / SHADOW_HEIGHT_M)) * Math.exp(-dist / SHADOW_DECAY_KM);
+                    if (contribution > shadow) shadow = contribution;
+                }
+
+                cell.rainShadow[m] = shadow;
+                if (shadow > maxRainShadow) maxRainShadow = shadow;
+            }
+        }
+    }
+
+    // --- 4. Diagnostics (land area) ---
+    let landArea = 0, windwardArea = 0, shadowArea = 0;
+    for (let r = 0; r < rows; r++) {
+        const w = Math.cos(toRad(grid[r * cols].lat));
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            if (!cell.isLand) continue;
+            landArea += w;
+            const upliftMean = cell.orographicUplift.reduce((a, b) => a + b, 0) / 12;
+            const shadowMean = cell.rainShadow.reduce((a, b) => a + b, 0) / 12;
+            if (upliftMean > WINDWARD_UPLIFT_THRESHOLD) windwardArea += w;
+            if (shadowMean > 0.5) shadowArea += w;
+        }
+    }
+
+    return {
+        windwardLandFraction: landArea > 0 ? windwardArea / landArea : 0,
+        shadowedLandFraction: landArea > 0 ? shadowArea / landArea : 0,
+        maxRainShadow
+    };
+};
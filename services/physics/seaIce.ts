@@ -0,0 +1,111 @@
+
+import { GridCell, PlanetParams, SimulationConfig, SeaIceResult } from '../../types';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+// --- Growth & Melt ---
+export const SEA_ICE_FREEZE_TEMP = 271.35; // seawater freezing point (-1.8°C)
+const STEFAN_COEFF = 0.001; // m^2 per K·day of freezing degree-days (h^2 = a * FDD, ~1.4 m after 2000 K·day)
+const MELT_COEFF = 0.00045; // m per K·day of melting degree-days; small because the EBM box is not held at the melting point
+const EXPORT_RATE_PER_DAY = 0.0004; // share of the thickness lost to ridging / export each day (~14 %/yr)
+export const SEA_ICE_MAX_THICKNESS_M = 6.0; // hard ceiling; export keeps multi-year ice in equilibrium below it
+const FREEZE_ONSET_K = 4.0; // open water must lose its mixed-layer heat first: new ice needs this much frost (monthly mean)
+const FULL_COVER_THICKNESS_M = 1.0; // thinner ice only partly covers the cell (leads, frazil)
+
+// --- Spin-up ---
+const MAX_SPINUP_YEARS = 20;
+const SPINUP_TOLERANCE_M = 0.01;
+
+// --- Diagnostics ---
+export const EXTENT_CONCENTRATION = 0.15; // standard extent threshold
+export const PERENNIAL_CONCENTRATION = 0.5; // ice through the whole year at this cover counts as perennial
+
+/**
+ * Step 5.4: Sea Ice
+ *
+ * Thermodynamic sea ice on ocean cells, driven by the monthly surface temperature:
+ * - Growth follows Stefan's law on freezing degree-days (thick ice grows slowly); open water only starts
+ *   freezing FREEZE_ONSET_K below the freezing point.
+ * - Melt is linear in melting degree-days; ridging / export removes a fixed share of the thickness, so
+ *   multi-year ice settles below SEA_ICE_MAX_THICKNESS_M instead of piling up against it.
+ * - Concentration rises with thickness up to FULL_COVER_THICKNESS_M.
+ * The annual cycle is repeated until the December thickness stops changing, so multi-year ice can build up.
+ * Writes cell.seaIceThickness[month] (m, end of month) and cell.seaIceConcentration[month] (0..1).
+ * Step 5.3 feeds the concentration back into the EBM (albedo and insulation); Step 3 treats ice as a wall.
+ */
+export const computeSeaIce = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    config: SimulationConfig
+): SeaIceResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const daysPerMonth = Math.max(0.1, planet.orbitalPeriod / 24 / 12);
+
+    let maxThicknessM = 0;
+    for (const cell of grid) {
+        if (cell.isLand) {
+            cell.seaIceThickness = new Array(12).fill(0);
+            cell.seaIceConcentration = new Array(12).fill(0);
+            continue;
+        }
+
+        let h = 0;
+        const thickness = new Array(12).fill(0);
+        for (let year = 0; year < MAX_SPINUP_YEARS; year++) {
+            const startH = h;
+            for (let m = 0; m < 12; m++) {
+                const dT = SEA_ICE_FREEZE_TEMP - cell.temp[m];
+                if (dT > 0) {
+                    const growth = h > 0 ? dT : Math.max(0, dT - FREEZE_ONSET_K);
+                    h = Math.sqrt(h * h + STEFAN_COEFF * growth * daysPerMonth);
+                } else {
+                    h = Math.max(0, h + MELT_COEFF * dT * daysPerMonth);
+                }
+                h *= Math.max(0, 1 - EXPORT_RATE_PER_DAY * daysPerMonth);
+                h = Math.min(SEA_ICE_MAX_THICKNESS_M, h);
+                thickness[m] = h;
+            }
+            if (Math.abs(h - startH) < SPINUP_TOLERANCE_M) break;
+        }
+
+        cell.seaIceThickness = thickness;
+        cell.seaIceConcentration = thickness.map(t => Math.min(1, t / FULL_COVER_THICKNESS_M));
+        for (const t of thickness) if (t > maxThicknessM) maxThicknessM = t;
+    }
+
+    // --- Extent (km^2, cells at or above EXTENT_CONCENTRATION) ---
+    const kmPerRad = planet.radius;
+    const dPhi = Math.PI / Math.max(1, rows - 1);
+    const dLambda = 2 * Math.PI / cols;
+    const extentKm2 = new Array(12).fill(0);
+    const northKm2 = new Array(12).fill(0);
+    const southKm2 = new Array(12).fill(0);
+    let oceanArea = 0, perennialArea = 0;
+    for (let r = 0; r < rows; r++) {
+        const lat = grid[r * cols].lat;
+        const cellArea = kmPerRad * kmPerRad * dPhi * dLambda * Math.cos(toRad(lat));
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            if (cell.isLand) continue;
+            oceanArea += cellArea;
+            if (Math.min(...cell.seaIceConcentration) >= PERENNIAL_CONCENTRATION) perennialArea += cellArea;
+            for (let m = 0; m < 12; m++) {
+                if (cell.seaIceConcentration[m] < EXTENT_CONCENTRATION) continue;
+                extentKm2[m] += cellArea;
+                if (lat >= 0) northKm2[m] += cellArea;
+                else southKm2[m] += cellArea;
+            }
+        }
+    }
+
+    return {
+        extentKm2,
+        northExtentKm2: northKm2,
+        southExtentKm2: southKm2,
+        marchExtentKm2: extentKm2[2],
+        septemberExtentKm2: extentKm2[8],
+        perennialFraction: oceanArea > 0 ? perennialArea / oceanArea : 0,
+        maxThicknessM
+    };
+};
@@ -1,4 +1,401 @@
 
-// Logic removed per request.
-export const computeZonalClimate = () => {};
-export const computeRealTemp = () => {};
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, ThermoResult } from '../../types';
+import { isTidallyLocked, toTidallyLockedCoords, fromTidallyLockedCoords } from './tidalLock';
+
+const toRad = (d: number) => d * Math.PI / 180;
+
+// --- Radiation (linearized OLR, North & Coakley style) ---
+// OLR = A + B * (T - 273.15)
+const OLR_B = 2.09; // W/m^2/K
+const OLR_A_EARTH = 196.0; // W/m^2, calibrated so that EARTH_PARAMS/EARTH_ATMOSPHERE ≈ 288K
+const GREENHOUSE_FORCING_PER_DOUBLING = 55.0; // W/m^2 per doubling of greenhouseFactor(+1)
+
+// Shortwave reflected by the atmosphere/clouds before reaching the surface.
+// Planetary albedo = CLOUD + (1 - CLOUD) * surfaceAlbedo
+const CLOUD_ALBEDO = 0.22;
+
+// --- Heat Capacities (W·month/m^2/K) ---
+const C_OCEAN_MIXED_LAYER = 30.0; // ~ 40m mixed layer (scaled by heatCapacityOcean)
+const C_LAND_SURFACE = 1.5;
+const C_ATM_PER_BAR = 3.9; // cp * p / g for 1 bar at g = 9.81
+
+// --- Transport ---
+const D_EARTH = 0.55; // W/m^2/K, meridional diffusion for meridionalTransport = 35
+const MERIDIONAL_TRANSPORT_REF = 35.0;
+const LAND_SEA_EXCHANGE = 10.0; // W/m^2/K, zonal mixing between land and ocean boxes of a row
+
+// --- Sea Ice ---
+const SEA_ICE_INSULATION = 0.8; // fraction of the mixed layer cut off from the surface under full ice cover
+
+// --- Integration ---
+const SUB_STEPS_PER_MONTH = 8;
+const MAX_SPINUP_YEARS = 40;
+const CONVERGENCE_K = 0.01;
+
+// --- Land/Sea blending for per-cell temperature ---
+const MARITIME_SCALE_KM = 400.0; // inland decay of ocean influence
+const CONTINENTAL_SCALE_KM = 200.0; // offshore decay of land influence
+const OCEAN_CURRENT_SST_K = 5.0; // K per unit of the Step 3.2 current anomaly (fully meridional current)
+const UPWELLING_SST_K = 4.0; // K of cooling at full Step 3.3 upwelling
+
+// Ice-covered fraction of the land / ocean box of each row (decided per cell by the ice-albedo solver)
+export interface ZonalIceCover {
+    land: number[]; // [Row] 0..1, perennial snow
+    ocean: number[][]; // [Row][Month] 0..1, mean sea-ice concentration
+}
+
+// EBM bands. Normally the latitude rows of the grid; on a tidally locked planet, rings of equal
+// distance from the substellar point (tidally locked latitude), so the day-night contrast is "zonal".
+export interface ZonalFrame {
+    tidallyLocked: boolean;
+    samples: Int32Array; // [Band * cols + k] grid cell at the k-th of cols evenly spaced points along each band
+    cellBand: Float64Array; // [Cell] fractional band index, for interpolating band values back onto the grid
+}
+
+export interface ZonalClimateResult {
+    landTemp: number[][]; // [Row][Month] K
+    oceanTemp: number[][]; // [Row][Month] K
+    zonalTemp: number[][]; // [Row][Month] K, area-weighted mean of both boxes
+    landFraction: number[]; // [Row]
+    spinupYears: number;
+    frame: ZonalFrame;
+}
+
+/**
+ * Builds the EBM bands. Band r spans the same (tidally locked) latitude as grid row r, so the band
+ * geometry of the EBM is unchanged; only the cells that make up each band differ.
+ */
+export const buildZonalFrame = (grid: GridCell[], planet: PlanetParams, config: SimulationConfig): ZonalFrame => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const tidallyLocked = isTidallyLocked(planet);
+    const samples = new Int32Array(rows * cols);
+    const cellBand = new Float64Array(rows * cols);
+
+    if (!tidallyLocked) {
+        for (let i = 0; i < rows * cols; i++) {
+            samples[i] = i;
+            cellBand[i] = Math.floor(i / cols);
+        }
+        return { tidallyLocked, samples, cellBand };
+    }
+
+    const rowOfLat = (lat: number) => (90 - lat) / 180 * (rows - 1);
+    for (let r = 0; r < rows; r++) {
+        const tlLat = grid[r * cols].lat;
+        for (let k = 0; k < cols; k++) {
+            const { lat, lon } = fromTidallyLockedCoords(tlLat, -180 + (k / cols) * 360);
+            const row = Math.min(rows - 1, Math.max(0, Math.round(rowOfLat(lat))));
+            const col = ((Math.round((lon + 180) / 360 * cols) % cols) + cols) % cols;
+            samples[r * cols + k] = row * cols + col;
+        }
+    }
+    for (let i = 0; i < rows * cols; i++) {
+        cellBand[i] = rowOfLat(toTidallyLockedCoords(grid[i].lat, grid[i].lon).tlLat);
+    }
+    return { tidallyLocked, samples, cellBand };
+};
+
+/**
+ * Linear interpolation of a [Band][Month] field at a fractional band index.
+ */
+const sampleBand = (field: number[][], band: number, m: number): number => {
+    const r0 = Math.floor(band);
+    const r1 = Math.min(field.length - 1, r0 + 1);
+    const f = band - r0;
+    return field[r0][m] * (1 - f) + field[r1][m] * f;
+};
+
+/**
+ * Solves a tridiagonal system in-place (Thomas algorithm).
+ * lower[i] * x[i-1] + diag[i] * x[i] + upper[i] * x[i+1] = rhs[i]
+ */
+const solveTridiagonal = (lower: Float64Array, diag: Float64Array, upper: Float64Array, rhs: Float64Array): Float64Array => {
+    const n = diag.length;
+    const cp = new Float64Array(n);
+    const dp = new Float64Array(n);
+    cp[0] = upper[0] / diag[0];
+    dp[0] = rhs[0] / diag[0];
+    for (let i = 1; i < n; i++) {
+        const m = diag[i] - lower[i] * cp[i - 1];
+        cp[i] = upper[i] / m;
+        dp[i] = (rhs[i] - lower[i] * dp[i - 1]) / m;
+    }
+    const x = new Float64Array(n);
+    x[n - 1] = dp[n - 1];
+    for (let i = n - 2; i >= 0; i--) {
+        x[i] = dp[i] - cp[i] * x[i + 1];
+    }
+    return x;
+};
+
+/**
+ * Step 5.1: Zonal Energy Balance Model
+ *
+ * Monthly seasonal EBM on latitude rows with a land box and an ocean box per row.
+ * - Absorbed shortwave: insolation * (1 - planetary albedo), albedoIce on the ice-covered part of each box.
+ * - Outgoing longwave: linearized, offset by greenhouseFactor (logarithmic forcing).
+ * - Heat capacity: ocean mixed layer scaled by heatCapacityOcean (seasonal lag), land + air column.
+ * - Meridional transport: latitudinal diffusion scaled by meridionalTransport (implicit).
+ * Integrated until the annual cycle repeats (spin-up), the last year is returned.
+ * `initial` warm-starts from a previous solution (used by the ice-albedo iteration).
+ * Rows are the bands of a ZonalFrame: latitude rows, or substellar rings on a tidally locked planet.
+ */
+export const computeZonalClimate = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    config: SimulationConfig,
+    ice?: ZonalIceCover,
+    initial?: ZonalClimateResult,
+    bands?: ZonalFrame // reused across calls; built from the planet when omitted
+): ZonalClimateResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+
+    // --- 1. Row Geometry ---
+    const dPhi = Math.PI / Math.max(1, rows - 1);
+    const latRad: number[] = [];
+    for (let r = 0; r < rows; r++) latRad.push(toRad(grid[r * cols].lat));
+
+    // Band area (∫cosφ dφ) and edge factors (cosφ at r+1/2)
+    const bandArea = new Float64Array(rows);
+    const edgeCos = new Float64Array(Math.max(0, rows - 1));
+    for (let r = 0; r < rows; r++) {
+        const top = Math.min(Math.PI / 2, latRad[r] + dPhi / 2);
+        const bottom = Math.max(-Math.PI / 2, latRad[r] - dPhi / 2);
+        bandArea[r] = Math.sin(top) - Math.sin(bottom);
+        if (r < rows - 1) edgeCos[r] = Math.cos((latRad[r] + latRad[r + 1]) / 2);
+    }
+
+    // --- 2. Surface Properties per Row ---
+    const frame = bands ?? initial?.frame ?? buildZonalFrame(grid, planet, config);
+    const landFraction: number[] = [];
+    for (let r = 0; r < rows; r++) {
+        let land = 0;
+        for (let k = 0; k < cols; k++) if (grid[frame.samples[r * cols + k]].isLand) land++;
+        landFraction.push(land / cols);
+    }
+
+    const gravityScale = 9.81 / Math.max(0.1, planet.gravity);
+    const cAtm = C_ATM_PER_BAR * atm.surfacePressure * gravityScale;
+    const cLand = C_LAND_SURFACE + cAtm;
+    const cOcean = C_OCEAN_MIXED_LAYER * atm.heatCapacityOcean + cAtm;
+
+    const olrA = OLR_A_EARTH - GREENHOUSE_FORCING_PER_DOUBLING * (Math.log2(1 + Math.max(0, atm.greenhouseFactor)) - 1);
+    const diffusion = D_EARTH * atm.meridionalTransport / MERIDIONAL_TRANSPORT_REF;
+
+    const planetaryAlbedo = (surface: number) => CLOUD_ALBEDO + (1 - CLOUD_ALBEDO) * surface;
+
+    // Monthly insolation per row (band mean; zonally uniform unless tidally locked)
+    const insolation: number[][] = [];
+    for (let r = 0; r < rows; r++) {
+        const line = new Array(12).fill(0);
+        for (let k = 0; k < cols; k++) {
+            const q = grid[frame.samples[r * cols + k]].insolation;
+            for (let m = 0; m < 12; m++) line[m] += q[m] / cols;
+        }
+        insolation.push(line);
+    }
+
+    // --- 3. Time Integration ---
+    const dt = 1 / SUB_STEPS_PER_MONTH; // months
+    const tLand = new Float64Array(rows).fill(288);
+    const tOcean = new Float64Array(rows).fill(288);
+    if (initial && initial.landTemp.length === rows) {
+        for (let r = 0; r < rows; r++) {
+            tLand[r] = initial.landTemp[r][11];
+            tOcean[r] = initial.oceanTemp[r][11];
+        }
+    }
+
+    const iceLand = ice?.land ?? new Array(rows).fill(0);
+    const iceOcean = ice?.ocean ?? Array.from({ length: rows }, () => new Array(12).fill(0));
+
+    const landTemp: number[][] = Array.from({ length: rows }, () => new Array(12).fill(0));
+    const oceanTemp: number[][] = Array.from({ length: rows }, () => new Array(12).fill(0));
+
+    // Implicit diffusion operator (constant part)
+    const lower = new Float64Array(rows);
+    const diag = new Float64Array(rows);
+    const upper = new Float64Array(rows);
+    const rhs = new Float64Array(rows);
+
+    let prevAnnual: Float64Array | null = null;
+    let spinupYears = 0;
+
+    for (let year = 0; year < MAX_SPINUP_YEARS; year++) {
+        spinupYears = year + 1;
+        const annual = new Float64Array(rows);
+
+        for (let m = 0; m < 12; m++) {
+            const landAcc = new Float64Array(rows);
+            const oceanAcc = new Float64Array(rows);
+
+            for (let s = 0; s < SUB_STEPS_PER_MONTH; s++) {
+                // 3a. Local radiation + land/sea exchange (semi-implicit per box)
+                for (let r = 0; r < rows; r++) {
+                    const q = insolation[r][m];
+                    const fL = landFraction[r];
+
+                    const seaIce = iceOcean[r][m];
+                    const albLand = atm.albedoLand + (atm.albedoIce - atm.albedoLand) * iceLand[r];
+                    const albOcean = atm.albedoOcean + (atm.albedoIce - atm.albedoOcean) * seaIce;
+                    // Sea ice insulates the mixed layer: the surface responds with less thermal inertia
+                    const cOceanSurf = cOcean - (cOcean - cLand) * SEA_ICE_INSULATION * seaIce;
+
+                    const absLand = q * (1 - planetaryAlbedo(albLand));
+                    const absOcean = q * (1 - planetaryAlbedo(albOcean));
+
+                    const exLand = LAND_SEA_EXCHANGE * (1 - fL);
+                    const exOcean = LAND_SEA_EXCHANGE * fL;
+
+                    const tl = tLand[r];
+                    const to = tOcean[r];
+                    tLand[r] = (cLand / dt * tl + absLand - olrA + OLR_B * 273.15 + exLand * to) / (cLand / dt + OLR_B + exLand);
+                    tOcean[r] = (cOceanSurf / dt * to + absOcean - olrA + OLR_B * 273.15 + exOcean * tl) / (cOceanSurf / dt + OLR_B + exOcean);
+                }
+
+                // 3b. Meridional diffusion of the row mean (implicit)
+                if (diffusion > 0 && rows > 1) {
+                    for (let r = 0; r < rows; r++) {
+                        const fL = landFraction[r];
+                        const cOceanSurf = cOcean - (cOcean - cLand) * SEA_ICE_INSULATION * iceOcean[r][m];
+                        const cMix = fL * cLand + (1 - fL) * cOceanSurf;
+                        const tMix = fL * tLand[r] + (1 - fL) * tOcean[r];
+                        const kUp = r > 0 ? diffusion * edgeCos[r - 1] / (dPhi * bandArea[r]) : 0;
+                        const kDown = r < rows - 1 ? diffusion * edgeCos[r] / (dPhi * bandArea[r]) : 0;
+                        lower[r] = -kUp;
+                        upper[r] = -kDown;
+                        diag[r] = cMix / dt + kUp + kDown;
+                        rhs[r] = cMix / dt * tMix;
+                    }
+                    const solved = solveTridiagonal(lower, diag, upper, rhs);
+                    for (let r = 0; r < rows; r++) {
+                        const fL = landFraction[r];
+                        const delta = solved[r] - (fL * tLand[r] + (1 - fL) * tOcean[r]);
+                        tLand[r] += delta;
+                        tOcean[r] += delta;
+                    }
+                }
+
+                for (let r = 0; r < rows; r++) {
+                    landAcc[r] += tLand[r];
+                    oceanAcc[r] += tOcean[r];
+                }
+            }
+
+            for (let r = 0; r < rows; r++) {
+                landTemp[r][m] = landAcc[r] / SUB_STEPS_PER_MONTH;
+                oceanTemp[r][m] = oceanAcc[r] / SUB_STEPS_PER_MONTH;
+                const fL = landFraction[r];
+                annual[r] += (fL * landTemp[r][m] + (1 - fL) * oceanTemp[r][m]) / 12;
+            }
+        }
+
+        // --- 4. Convergence Check (annual cycle repeats) ---
+        if (prevAnnual) {
+            let maxDiff = 0;
+            for (let r = 0; r < rows; r++) maxDiff = Math.max(maxDiff, Math.abs(annual[r] - prevAnnual[r]));
+            if (maxDiff < CONVERGENCE_K) break;
+        }
+        prevAnnual = annual;
+    }
+
+    const zonalTemp: number[][] = [];
+    for (let r = 0; r < rows; r++) {
+        const fL = landFraction[r];
+        const line: number[] = [];
+        for (let m = 0; m < 12; m++) line.push(fL * landTemp[r][m] + (1 - fL) * oceanTemp[r][m]);
+        zonalTemp.push(line);
+    }
+    for (let i = 0; i < grid.length; i++) {
+        const band = frame.cellBand[i];
+        grid[i].tempZonal = Array.from({ length: 12 }, (_, m) => sampleBand(zonalTemp, band, m));
+    }
+
+    return { landTemp, oceanTemp, zonalTemp, landFraction, spinupYears, frame };
+};
+
+/**
+ * Step 5.2: Surface Temperature per Cell
+ *
+ * Distributes the zonal land/ocean box temperatures to cells (interpolated between the bands of the ZonalFrame).
+ * Coastal land is moderated toward the ocean box (maritime climate),
+ * near-shore ocean is pulled slightly toward the land box.
+ * The boxes are sea-level values; land cells are then cooled by lapseRate * elevation.
+ * Ocean cells are shifted by the Step 3.2 current anomaly (warm / cold currents); coastal land
+ * inherits the anomaly of nearby water (Step 3.4) with the same inland decay as the maritime blend.
+ */
+export const computeRealTemp = (
+    grid: GridCell[],
+    zonal: ZonalClimateResult,
+    atm: AtmosphereParams,
+    config: SimulationConfig
+): { globalTemp: number, maxTemp: number, minTemp: number, thermo: ThermoResult } => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+
+    const lapseRate = Math.max(0, atm.lapseRate);
+    let maxElevationCooling = 0;
+
+    let weightedSum = 0;
+    let seaLevelSum = 0;
+    let weightSum = 0;
+    let maxTemp = -Infinity;
+    let minTemp = Infinity;
+
+    for (let r = 0; r < rows; r++) {
+        const weight = Math.cos(toRad(grid[r * cols].lat));
+
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            const band = zonal.frame.cellBand[r * cols + c];
+
+            // Weight of the "other" box
+            const w = cell.isLand
+                ? 0.5 * Math.exp(-cell.distCoast / MARITIME_SCALE_KM)
+                : 0.5 * Math.exp(cell.distCoast / CONTINENTAL_SCALE_KM);
+
+            // Lapse-rate correction (elevation in m, lapseRate in K/km)
+            const cooling = cell.isLand ? lapseRate * Math.max(0, cell.elevation) / 1000 : 0;
+            if (cooling > maxElevationCooling) maxElevationCooling = cooling;
+
+            let annual = 0;
+            for (let m = 0; m < 12; m++) {
+                const tl = sampleBand(zonal.landTemp, band, m);
+                const to = sampleBand(zonal.oceanTemp, band, m);
+                const own = cell.isLand ? tl : to;
+                const other = cell.isLand ? to : tl;
+                const current = cell.isLand
+                    ? cell.coastalCurrent[m] * Math.exp(-cell.distCoast / MARITIME_SCALE_KM)
+                    : cell.oceanCurrent[m];
+                const upwelling = cell.isLand
+                    ? cell.coastalUpwelling[m] * Math.exp(-cell.distCoast / MARITIME_SCALE_KM)
+                    : cell.upwelling[m];
+                const t = own * (1 - w) + other * w - cooling + OCEAN_CURRENT_SST_K * current - UPWELLING_SST_K * upwelling;
+                cell.temp[m] = t;
+                annual += t / 12;
+                if (t > maxTemp) maxTemp = t;
+                if (t < minTemp) minTemp = t;
+            }
+
+            weightedSum += annual * weight;
+            seaLevelSum += (annual + cooling) * weight;
+            weightSum += weight;
+        }
+    }
+
+    return {
+        globalTemp: weightSum > 0 ? weightedSum / weightSum : 0,
+        maxTemp: Number.isFinite(maxTemp) ? maxTemp : 0,
+        minTemp: Number.isFinite(minTemp) ? minTemp : 0,
+        thermo: {
+            lapseRate,
+            surfacePressure: atm.surfacePressure,
+            spinupYears: zonal.spinupYears,
+            seaLevelGlobalTemp: weightSum > 0 ? seaLevelSum / weightSum : 0,
+            maxElevationCooling
+        }
+    };
+};
@@ -0,0 +1,148 @@
+
+import { GridCell, PlanetParams, ConvectiveCenter, TidalLockResult } from '../../types';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// --- Detection ---
+const SYNCHRONOUS_TOLERANCE = 0.02; // |rotation - orbit| / orbit below which 'auto' treats the spin as synchronous
+
+// --- Geometry ---
+export const SUBSTELLAR_LON_DEG = 0; // the substellar meridian is pinned to the prime meridian of the map
+export const SUBSTELLAR_CONVECTION_RADIUS_DEG = 30; // deep convection covers the hottest part of the day side
+const TERMINATOR_BAND_DEG = 10;
+
+type Vec3 = [number, number, number];
+
+const toVector = (latDeg: number, lonDeg: number): Vec3 => {
+    const lat = toRad(latDeg);
+    const lon = toRad(lonDeg);
+    return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)];
+};
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Orthonormal frame of the tidally locked coordinates: z points at the substellar point,
+ * x toward the geographic north pole (or due east when the star is overhead at a pole).
+ */
+const substellarFrame = (subLatDeg: number, subLonDeg: number): { x: Vec3, y: Vec3, z: Vec3 } => {
+    const z = toVector(subLatDeg, subLonDeg);
+    let x: Vec3 = [-z[2] * z[0], -z[2] * z[1], 1 - z[2] * z[2]]; // north pole minus its projection on z
+    let len = Math.sqrt(dot(x, x));
+    if (len < 1e-9) {
+        x = [-Math.sin(toRad(subLonDeg)), Math.cos(toRad(subLonDeg)), 0];
+        len = 1;
+    }
+    x = [x[0] / len, x[1] / len, x[2] / len];
+    const y: Vec3 = [z[1] * x[2] - z[2] * x[1], z[2] * x[0] - z[0] * x[2], z[0] * x[1] - z[1] * x[0]];
+    return { x, y, z };
+};
+
+/**
+ * Spin sense relative to the orbit. An obliquity above 90° tips the spin axis past the orbital plane,
+ * so the planet turns against its orbit (Venus: 177°); the retrograde flag reverses that again.
+ */
+export const spinsAgainstOrbit = (planet: PlanetParams): boolean =>
+    planet.isRetrograde !== (planet.obliquity > 90);
+
+/**
+ * Synchronous rotation: forced by tidalLock = 'locked', or detected ('auto') when a prograde spin
+ * matches the orbital period within SYNCHRONOUS_TOLERANCE.
+ */
+export const isTidallyLocked = (planet: PlanetParams): boolean => {
+    if (planet.tidalLock === 'locked') return true;
+    if (planet.tidalLock === 'free' || spinsAgainstOrbit(planet)) return false;
+    return Math.abs(planet.rotationPeriod - planet.orbitalPeriod) <= SYNCHRONOUS_TOLERANCE * planet.orbitalPeriod;
+};
+
+/**
+ * Rotation period the dynamics should use: a locked planet turns once per orbit, whatever the slider says.
+ */
+export const getEffectiveRotationPeriod = (planet: PlanetParams): number =>
+    isTidallyLocked(planet) ? planet.orbitalPeriod : planet.rotationPeriod;
+
+/**
+ * Great-circle distance (degrees) between two points.
+ */
+export const angularDistanceDeg = (lat1: number, lon1: number, lat2: number, lon2: number): number =>
+    toDeg(Math.acos(clamp(dot(toVector(lat1, lon1), toVector(lat2, lon2)), -1, 1)));
+
+/**
+ * Tidally locked coordinates (Koll & Abbot 2015): the substellar point is the TL north pole.
+ * tlLat = 90° - angular distance from the substellar point (0 on the terminator, -90 at the antistellar point);
+ * tlLon is the azimuth around the star-planet axis, measured from the direction of the geographic north pole.
+ */
+export const toTidallyLockedCoords = (lat: number, lon: number, subLatDeg = 0, subLonDeg = SUBSTELLAR_LON_DEG): { tlLat: number, tlLon: number } => {
+    const f = substellarFrame(subLatDeg, subLonDeg);
+    const p = toVector(lat, lon);
+    return {
+        tlLat: toDeg(Math.asin(clamp(dot(p, f.z), -1, 1))),
+        tlLon: toDeg(Math.atan2(dot(p, f.y), dot(p, f.x)))
+    };
+};
+
+export const fromTidallyLockedCoords = (tlLat: number, tlLon: number, subLatDeg = 0, subLonDeg = SUBSTELLAR_LON_DEG): { lat: number, lon: number } => {
+    const f = substellarFrame(subLatDeg, subLonDeg);
+    const cl = Math.cos(toRad(tlLat));
+    const a = cl * Math.cos(toRad(tlLon));
+    const b = cl * Math.sin(toRad(tlLon));
+    const c = Math.sin(toRad(tlLat));
+    const p: Vec3 = [
+        a * f.x[0] + b * f.y[0] + c * f.z[0],
+        a * f.x[1] + b * f.y[1] + c * f.z[1],
+        a * f.x[2] + b * f.y[2] + c * f.z[2]
+    ];
+    return {
+        lat: toDeg(Math.asin(clamp(p[2], -1, 1))),
+        lon: toDeg(Math.atan2(p[1], p[0]))
+    };
+};
+
+/**
+ * Unit vector (east, north) of the great circle leading from a point toward the substellar point.
+ */
+export const substellarBearing = (lat: number, lon: number, subLatDeg: number, subLonDeg: number): { east: number, north: number } => {
+    const phi = toRad(lat);
+    const phiS = toRad(subLatDeg);
+    const dLon = toRad(subLonDeg - lon);
+    const east = Math.cos(phiS) * Math.sin(dLon);
+    const north = Math.cos(phi) * Math.sin(phiS) - Math.sin(phi) * Math.cos(phiS) * Math.cos(dLon);
+    const len = Math.sqrt(east * east + north * north);
+    return len > 1e-9 ? { east: east / len, north: north / len } : { east: 0, north: 0 };
+};
+
+/**
+ * Day / night / terminator summary of a synchronously rotating planet (after Step 5).
+ * Returns undefined when the planet is not tidally locked (there is no fixed day side).
+ */
+export const summarizeTidalLock = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    convectiveCenter?: ConvectiveCenter
+): TidalLockResult | undefined => {
+    const locked = isTidallyLocked(planet);
+    if (!locked) return undefined;
+
+    let daySum = 0, dayW = 0, nightSum = 0, nightW = 0, termSum = 0, termW = 0;
+    for (let i = 0; i < grid.length; i++) {
+        const cell = grid[i];
+        const w = Math.cos(toRad(cell.lat));
+        const annual = cell.temp.reduce((a, b) => a + b, 0) / 12;
+        const { tlLat } = toTidallyLockedCoords(cell.lat, cell.lon);
+        if (tlLat >= 0) { daySum += annual * w; dayW += w; }
+        else { nightSum += annual * w; nightW += w; }
+        if (Math.abs(tlLat) <= TERMINATOR_BAND_DEG) { termSum += annual * w; termW += w; }
+    }
+
+    return {
+        locked,
+        forced: planet.tidalLock === 'locked',
+        substellarLonDeg: SUBSTELLAR_LON_DEG,
+        convectiveCenter,
+        dayMeanTemp: dayW > 0 ? daySum / dayW : 0,
+        nightMeanTemp: nightW > 0 ? nightSum / nightW : 0,
+        terminatorMeanTemp: termW > 0 ? termSum / termW : 0
+    };
+};
@@ -0,0 +1,143 @@
+
+import { GridCell, PlanetParams, SimulationConfig, UpwellingResult } from '../../types';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// --- Coastal (Ekman) Upwelling ---
+const UPWELLING_REF_WIND = 6.0; // m/s of offshore-driving wind that saturates the index
+const UPWELLING_DECAY_KM = 150; // offshore width of the upwelling strip
+const UPWELLING_MAX_COAST_KM = 500; // ocean cells farther out are never flagged
+const EASTERN_BOUNDARY_MIN_NX = 0.3; // eastward component of the coast normal (land to the east)
+const EKMAN_MIN_LAT = 2; // Ekman transport is undefined on the equator...
+const EKMAN_FULL_LAT = 6; // ...and ramps in to full strength here
+const UPWELLING_TAPER_START_LAT = 45; // deep winter mixing and sea ice hide upwelling at high latitudes
+const UPWELLING_TAPER_END_LAT = 60;
+
+// --- Equatorial Cold Tongue ---
+const COLD_TONGUE_WIDTH_DEG = 3; // e-folding half-width of the equatorial divergence
+const COLD_TONGUE_MAX_LAT = 8;
+const COLD_TONGUE_REF_WIND = 3.0; // m/s, equatorial easterlies are weak next to the doldrums
+const COLD_TONGUE_DECAY_KM = 4000; // strongest against the eastern boundary, fading westward
+
+// Diagnostics
+const UPWELLING_FLAG_THRESHOLD = 0.2;
+
+/**
+ * Step 3.3: Coastal Upwelling & Cold Tongue
+ *
+ * Flags cold water brought up by wind-driven divergence, per month, from the Step 2 winds:
+ * - Coastal: on eastern ocean boundaries (land to the east, from the collisionMask gradient), the
+ *   Ekman transport of the wind (90° right of it in the northern hemisphere, left in the southern)
+ *   is projected on the offshore direction. Alongshore equatorward wind pushes water offshore and
+ *   scores highest. The index fades with distance from the coast.
+ * - Cold tongue: equatorial easterlies diverge water off the equator; the effect is strongest next
+ *   to the eastern boundary of the basin and decays westward.
+ * Writes cell.upwelling[month] (0..1, ocean only). Step 5 turns it into a cooling term.
+ */
+export const computeUpwelling = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    config: SimulationConfig
+): UpwellingResult => {
+    const rows = config.resolutionLat;
+    const cols = config.resolutionLon;
+    const rotationSign = planet.isRetrograde ? -1 : 1;
+    const kmPerDegLat = (2 * Math.PI * planet.radius) / 360;
+
+    // --- 1. Coast Normal (points toward land) ---
+    const nx = new Float64Array(rows * cols);
+    const ny = new Float64Array(rows * cols); // northward
+    for (let r = 0; r < rows; r++) {
+        const rN = Math.max(0, r - 1);
+        const rS = Math.min(rows - 1, r + 1);
+        for (let c = 0; c < cols; c++) {
+            const i = r * cols + c;
+            const gx = grid[r * cols + (c + 1) % cols].collisionMask - grid[r * cols + (c - 1 + cols) % cols].collisionMask;
+            const gy = grid[rN * cols + c].collisionMask - grid[rS * cols + c].collisionMask;
+            const len = Math.sqrt(gx * gx + gy * gy);
+            if (len > 1e-6) {
+                nx[i] = gx / len;
+                ny[i] = gy / len;
+            }
+        }
+    }
+
+    // --- 2. Distance to the eastern boundary along each row (km) ---
+    // Marched downwind of the trades, so it mirrors with retrograde rotation. Open rows stay at Infinity.
+    const distEast = new Float64Array(rows * cols).fill(Infinity);
+    for (let r = 0; r < rows; r++) {
+        const lat = grid[r * cols].lat;
+        if (Math.abs(lat) > COLD_TONGUE_MAX_LAT) continue;
+        const kmPerCell = kmPerDegLat * (360 / cols) * Math.cos(toRad(lat));
+        for (let c = 0; c < cols; c++) {
+            if (grid[r * cols + c].isLand) continue;
+            for (let k = 1; k < cols; k++) {
+                if (grid[r * cols + ((c + k * rotationSign) % cols + cols) % cols].isLand) {
+                    distEast[r * cols + c] = k * kmPerCell;
+                    break;
+                }
+            }
+        }
+    }
+
+    // --- 3. Monthly Index ---
+    let maxUpwelling = 0;
+    let oceanArea = 0, coastalArea = 0, tongueArea = 0;
+
+    for (let r = 0; r < rows; r++) {
+        const lat = grid[r * cols].lat;
+        const absLat = Math.abs(lat);
+        const areaW = Math.cos(toRad(lat));
+        const fSign = (lat >= 0 ? 1 : -1) * rotationSign;
+        const ekmanRamp = clamp((absLat - EKMAN_MIN_LAT) / (EKMAN_FULL_LAT - EKMAN_MIN_LAT), 0, 1)
+            * clamp((UPWELLING_TAPER_END_LAT - absLat) / (UPWELLING_TAPER_END_LAT - UPWELLING_TAPER_START_LAT), 0, 1);
+        const tongueLat = absLat <= COLD_TONGUE_MAX_LAT ? Math.exp(-Math.pow(lat / COLD_TONGUE_WIDTH_DEG, 2)) : 0;
+
+        for (let c = 0; c < cols; c++) {
+            const i = r * cols + c;
+            const cell = grid[i];
+            if (cell.isLand) continue;
+
+            const isEasternBoundary = cell.distCoast > -UPWELLING_MAX_COAST_KM && nx[i] * rotationSign > EASTERN_BOUNDARY_MIN_NX;
+            const coastDecay = Math.exp(cell.distCoast / UPWELLING_DECAY_KM);
+            const eastDecay = Number.isFinite(distEast[i]) ? Math.exp(-distEast[i] / COLD_TONGUE_DECAY_KM) : 0;
+
+            let coastalMean = 0;
+            let tongueMean = 0;
+            for (let m = 0; m < 12; m++) {
+                const u = cell.windU[m];
+                const v = cell.windV[m];
+
+                let coastal = 0;
+                if (isEasternBoundary && ekmanRamp > 0) {
+                    // Ekman transport T = fSign * (v, -u); offshore is against the land normal
+                    const offshore = -fSign * (v * nx[i] - u * ny[i]);
+                    coastal = clamp(offshore / UPWELLING_REF_WIND, 0, 1) * coastDecay * ekmanRamp;
+                }
+
+                let tongue = 0;
+                if (tongueLat > 0) {
+                    const easterly = -u * rotationSign;
+                    tongue = clamp(easterly / COLD_TONGUE_REF_WIND, 0, 1) * tongueLat * eastDecay;
+                }
+
+                const value = Math.max(coastal, tongue);
+                cell.upwelling[m] = value;
+                if (value > maxUpwelling) maxUpwelling = value;
+                coastalMean += coastal / 12;
+                tongueMean += tongue / 12;
+            }
+
+            oceanArea += areaW;
+            if (coastalMean > UPWELLING_FLAG_THRESHOLD) coastalArea += areaW;
+            if (tongueMean > UPWELLING_FLAG_THRESHOLD) tongueArea += areaW;
+        }
+    }
+
+    return {
+        coastalOceanFraction: oceanArea > 0 ? coastalArea / oceanArea : 0,
+        coldTongueOceanFraction: oceanArea > 0 ? tongueArea / oceanArea : 0,
+        maxUpwelling
+    };
+};
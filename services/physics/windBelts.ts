@@ -1,5 +1,484 @@
 
-import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, WindBeltsResult } from '../../types';
+import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsParams, WindBeltsResult, ConvectiveCenter, CirculationScaling, CellLayout } from '../../types';
+import { angularDistanceDeg, substellarBearing, getEffectiveRotationPeriod } from './tidalLock';
+import { buildCellGeometry } from './gridGeometry';
+
+const toRad = (d: number) => d * Math.PI / 180;
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+// --- Seasonal Cell Boundaries ---
+const HADLEY_EDGE_ITCZ_SHIFT = 0.5; // Hadley edges move by this fraction of the zonal-mean ITCZ excursion
+const MIN_SEASONAL_CELL_WIDTH_DEG = 2; // narrowest shifted cell (also the gap between the ITCZ and its Hadley edge)
+
+// --- Geostrophic Mode ---
+const GAS_CONSTANT_DRY_AIR = 287.0; // J/kg/K
+const REFERENCE_AIR_TEMP_K = 288.0; // surface air density is evaluated at this temperature
+const FRICTION_TURN_OCEAN_DEG = 20; // cross-isobar turning toward low pressure in the boundary layer
+const FRICTION_TURN_LAND_DEG = 35;
+const FRICTION_SPEED_OCEAN = 0.8; // surface / geostrophic speed
+const FRICTION_SPEED_LAND = 0.6;
+const GEOSTROPHIC_BLEND_START_LAT = 5; // belt winds only equatorward of this...
+const GEOSTROPHIC_BLEND_END_LAT = 15; // ...pure geostrophy poleward of this
+const GEOSTROPHIC_MAX_SPEED = 30.0; // m/s cap on the balanced wind
+
+// --- Seasonal Pressure Cells ---
+const PRESSURE_CELL_SMOOTH_KM = 1000; // radius of the box blur applied to the temperature anomaly
+const THERMAL_PRESSURE_PER_K = 1.0; // hPa per K of (smoothed) anomaly, warm -> low
+const CONTINENTAL_GAIN = 3.0; // extra thermal response deep inland (heatMapVal = 1), nothing on the coast
+const WINTER_HIGH_FACTOR = 1.5; // cold continental air pools under inversions: highs outgrow summer lows
+const SUBTROPICAL_COLD_WATER_GAIN = 2.0; // extra response of cold water under the subtropical high belt
+
+// --- Stationary Waves ---
+const STATIONARY_WAVE_MAX_WAVENUMBER = 8; // zonal wavenumbers kept in the linear response
+const STATIONARY_WAVE_DAMPING_DAYS = 6; // Rayleigh friction time of the barotropic wave
+const STATIONARY_WAVE_MIN_U = 2.0; // m/s; Rossby waves only stand still in westerlies
+const STATIONARY_WAVE_MIN_ROWS = 3; // westerly bands narrower than this carry no wave
+const THERMAL_DOME_HEIGHT_M = 500; // equivalent height of a winter-cold (or summer-warm, negative) continent
+const SURFACE_AMPLITUDE_RATIO = 0.5; // the barotropic solution is the mid-troposphere wave; the surface sees about half
+const STATIONARY_WAVE_MAX_V = 12.0; // m/s cap on the wave wind
+const STATIONARY_WAVE_MAX_HPA = 15.0; // cap on the trough / ridge amplitude
+
+// --- Terminator Flow (tidally locked) ---
+const TERMINATOR_FLOW_SPEED = 8.0; // m/s of night-to-day surface inflow across the terminator
+const TERMINATOR_MAX_TURN_DEG = 40; // Coriolis turning of the inflow at the poles of a 1-day rotator
+
+/**
+ * Separable box blur on a row-major field. Longitude wraps, latitude clamps.
+ * The zonal radius grows toward the poles to keep a constant physical radius.
+ */
+const blurField = (field: Float64Array, rows: number, cols: number, radiusRows: number, radiusCols: number[]): Float64Array => {
+    const tmp = new Float64Array(field.length);
+    const out = new Float64Array(field.length);
+
+    for (let r = 0; r < rows; r++) {
+        const rc = radiusCols[r];
+        for (let c = 0; c < cols; c++) {
+            let sum = 0;
+            for (let dc = -rc; dc <= rc; dc++) sum += field[r * cols + ((c + dc) % cols + cols) % cols];
+            tmp[r * cols + c] = sum / (2 * rc + 1);
+        }
+    }
+    for (let r = 0; r < rows; r++) {
+        const r0 = Math.max(0, r - radiusRows);
+        const r1 = Math.min(rows - 1, r + radiusRows);
+        for (let c = 0; c < cols; c++) {
+            let sum = 0;
+            for (let rr = r0; rr <= r1; rr++) sum += tmp[rr * cols + c];
+            out[r * cols + c] = sum / (r1 - r0 + 1);
+        }
+    }
+    return out;
+};
+
+/**
+ * Step 2: Seasonal pressure cells from the land-sea temperature contrast of the first-guess Step 5 temperature
+ * (cell.temp relative to cell.tempZonal; only its seasonal part over land).
+ * - Warm summer continents get thermal lows and cold winter continents highs, both amplified inland (heatMapVal)
+ *   and the highs more so.
+ * - Cold water under the subtropical high belt strengthens the oceanic highs on the eastern sides of basins.
+ * The anomaly is written to cell.thermalPressure and added to cell.pressure, so the geostrophic wind, Step 3 and
+ * Step 4 (monsoonal inflow) all see the same cells. Expects the belt pressure already in cell.pressure.
+ */
+const applySeasonalPressureCells = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    phys: PhysicsParams,
+    rows: number,
+    cols: number
+): { maxHighHpa: number, minLowHpa: number } => {
+    const total = rows * cols;
+    const { cellHeightKm, cellWidthKm } = buildCellGeometry(grid, planet, rows, cols);
+    const radiusRows = Math.max(1, Math.round(PRESSURE_CELL_SMOOTH_KM / cellHeightKm));
+    const radiusCols = cellWidthKm.map(w => clamp(Math.round(PRESSURE_CELL_SMOOTH_KM / w), 1, Math.floor(cols / 4)));
+
+    // Temperature anomaly vs. the zonal mean (sea-level equivalent, K). Land only responds to its seasonal part:
+    // a continent that is cold all year (high albedo) should not sit under a permanent high.
+    const height = (cell: GridCell) => cell.isLand ? Math.max(0, cell.elevation) : 0;
+    const landAnomaly = (cell: GridCell, m: number) => cell.temp[m] + atm.lapseRate * height(cell) / 1000 - cell.tempZonal[m];
+    const annualLandAnomaly = new Float64Array(total);
+    for (let i = 0; i < total; i++) {
+        if (!grid[i].isLand) continue;
+        for (let m = 0; m < 12; m++) annualLandAnomaly[i] += landAnomaly(grid[i], m) / 12;
+    }
+
+    let maxHighHpa = 0;
+    let minLowHpa = 0;
+    for (let m = 0; m < 12; m++) {
+        // Weighted temperature anomaly (K); the pressure anomaly is -THERMAL_PRESSURE_PER_K times its blur
+        const anomaly = new Float64Array(total);
+        for (let i = 0; i < total; i++) {
+            const cell = grid[i];
+            const dT = cell.isLand
+                ? landAnomaly(cell, m) - annualLandAnomaly[i]
+                : cell.temp[m] - cell.tempZonal[m];
+            let gain = 1;
+            if (cell.isLand) {
+                gain += CONTINENTAL_GAIN * Math.max(0, cell.heatMapVal);
+                if (dT < 0) gain *= WINTER_HIGH_FACTOR;
+            } else if (dT < 0) {
+                const subtropicalHigh = Math.max(0, (cell.pressure[m] - 1013) / Math.max(1, phys.windPressureAnomalyMax));
+                gain += SUBTROPICAL_COLD_WATER_GAIN * subtropicalHigh;
+            }
+            anomaly[i] = dT * gain;
+        }
+        const smooth = blurField(anomaly, rows, cols, radiusRows, radiusCols);
+        for (let i = 0; i < total; i++) {
+            const p = -THERMAL_PRESSURE_PER_K * smooth[i];
+            grid[i].thermalPressure[m] = p;
+            grid[i].pressure[m] += p;
+            maxHighHpa = Math.max(maxHighHpa, p);
+            minLowHpa = Math.min(minLowHpa, p);
+        }
+    }
+    return { maxHighHpa, minLowHpa };
+};
+
+/**
+ * Copies the Step 2 winds to cell.beltWindU/V. Step 4 refines windU/windV in place; the Step 2 views read the copy.
+ */
+const keepBeltWinds = (grid: GridCell[]): void => {
+    for (const cell of grid) {
+        cell.beltWindU = [...cell.windU];
+        cell.beltWindV = [...cell.windV];
+    }
+};
+
+/**
+ * Cell boundaries of one month in each hemisphere (|lat|, pole included), standard regime.
+ * Both Hadley edges follow the zonal-mean ITCZ toward the summer pole by HADLEY_EDGE_ITCZ_SHIFT of its excursion,
+ * so the cross-equatorial winter cell (ITCZ to winter edge) is wider than the summer cell. The shift fades
+ * linearly to zero at the pole.
+ * Each hemisphere is then made strictly increasing with cells at least MIN_SEASONAL_CELL_WIDTH_DEG wide (narrower
+ * only when that many cells cannot fit), and its Hadley edge stays that far poleward of the ITCZ.
+ */
+const seasonalBoundaries = (boundaries: number[], itczMeanLat: number): { north: number[], south: number[] } => {
+    const span = Math.max(1e-6, 90 - boundaries[0]);
+    const shiftAt = (b: number) => b >= 90 ? 0 : HADLEY_EDGE_ITCZ_SHIFT * itczMeanLat * (90 - b) / span;
+
+    // itczSide: ITCZ latitude counted positive into this hemisphere
+    const spaced = (shifted: number[], itczSide: number): number[] => {
+        const inner = shifted.findIndex(b => b >= 90);
+        const n = inner < 0 ? shifted.length : inner; // boundaries below the pole
+        if (n === 0) return shifted;
+        const floor = Math.max(0, itczSide);
+        const w = Math.min(MIN_SEASONAL_CELL_WIDTH_DEG, (90 - floor) / (n + 1));
+        const out = [...shifted];
+        out[0] = Math.max(out[0], floor + w);
+        for (let i = 1; i < n; i++) out[i] = Math.max(out[i], out[i - 1] + w);
+        for (let i = n - 1; i >= 0; i--) out[i] = Math.min(out[i], (i + 1 < n ? out[i + 1] : 90) - w);
+        return out;
+    };
+    return {
+        north: spaced(boundaries.map(b => b >= 90 ? 90 : b + shiftAt(b)), itczMeanLat),
+        south: spaced(boundaries.map(b => b >= 90 ? 90 : b - shiftAt(b)), -itczMeanLat)
+    };
+};
+
+/**
+ * Annual cell layout (|lat| boundaries per hemisphere, pole included) as signed boundaries with the surface wind
+ * sense of each belt. The belts alternate away from the thermally direct cell: the equatorial Hadley cell carries
+ * easterlies; with a reversed gradient the direct cell sits at the pole, and its poleward surface flow turns into
+ * westerlies. The equatorial belt spans both hemispheres.
+ */
+export const buildAnnualCellLayout = (boundaries: number[], reversed: boolean): CellLayout => {
+    const inner = boundaries.filter(b => b < 90);
+    const cells = inner.length + 1;
+    // k: belt index counted from the equator
+    const westerlyAt = (k: number) => reversed ? (cells - 1 - k) % 2 === 0 : k % 2 === 1;
+    const poleward = inner.map((_, i) => westerlyAt(i + 1));
+    return {
+        boundariesDeg: [...inner.map(b => -b).reverse(), ...inner],
+        westerly: [...[...poleward].reverse(), westerlyAt(0), ...poleward]
+    };
+};
+
+/**
+ * One month's layout from its signed boundaries (south to north). The belt holding the zonal-mean ITCZ is the
+ * Hadley belt (easterlies) and the senses alternate away from it. Under high obliquity the winds between the
+ * ITCZ and the equator are reversed (sideSign in computeWindBelts), so the equator and the ITCZ also split belts.
+ */
+const buildMonthlyCellLayout = (boundaries: number[], itczMeanLat: number, highObliquity: boolean): CellLayout => {
+    const beltOf = (lat: number) => boundaries.filter(b => b < lat).length;
+    const itczBelt = beltOf(itczMeanLat);
+    const splits = highObliquity ? [0, itczMeanLat].filter(l => !boundaries.includes(l)) : [];
+    const boundariesDeg = [...new Set([...boundaries, ...splits])].sort((a, b) => a - b);
+    const westerly: boolean[] = [];
+    for (let j = 0; j <= boundariesDeg.length; j++) {
+        const mid = ((j > 0 ? boundariesDeg[j - 1] : -90) + (j < boundariesDeg.length ? boundariesDeg[j] : 90)) / 2;
+        const reversed = highObliquity && (mid >= itczMeanLat) !== (mid >= 0);
+        westerly.push((Math.abs(beltOf(mid) - itczBelt) % 2 === 1) !== reversed);
+    }
+    return { boundariesDeg, westerly };
+};
+
+/**
+ * Step 2 (tidally locked): surface flow converges on the substellar convective centre instead of forming zonal belts.
+ * Speed peaks at the terminator (sin of the angular distance) and the flow is turned by the slow rotation,
+ * to the right in the northern hemisphere. Pressure is low under the star and high over the night side.
+ */
+const computeTerminatorFlow = (
+    grid: GridCell[],
+    center: ConvectiveCenter,
+    planet: PlanetParams,
+    phys: PhysicsParams
+): Omit<WindBeltsResult, 'maxHighHpa' | 'minLowHpa'> => {
+    const rotationSign = planet.isRetrograde ? -1 : 1;
+    const rotationPeriod = getEffectiveRotationPeriod(planet);
+    const turnScale = Math.min(1, Math.sqrt(24 / rotationPeriod));
+
+    for (let m = 0; m < 12; m++) {
+        const subLat = center.latDeg[m];
+        for (const cell of grid) {
+            const theta = angularDistanceDeg(cell.lat, cell.lon, subLat, center.lonDeg);
+            const { east, north } = substellarBearing(cell.lat, cell.lon, subLat, center.lonDeg);
+            const speed = TERMINATOR_FLOW_SPEED * Math.sin(toRad(theta));
+            const turn = toRad(TERMINATOR_MAX_TURN_DEG) * Math.sin(toRad(cell.lat)) * rotationSign * turnScale;
+            // Clockwise rotation by `turn` (right-hand deflection for turn > 0)
+            cell.windU[m] = speed * (east * Math.cos(turn) + north * Math.sin(turn));
+            cell.windV[m] = speed * (north * Math.cos(turn) - east * Math.sin(turn));
+            cell.pressure[m] = 1013 - phys.windPressureAnomalyMax * Math.cos(toRad(theta));
+        }
+    }
+
+    return {
+        hadleyEdgeDeg: 90,
+        cellBoundariesDeg: [90],
+        gradientReversed: false,
+        cellLayout: buildAnnualCellLayout([90], false),
+        monthlyCellBoundariesDeg: Array.from({ length: 12 }, () => []),
+        monthlyCellLayouts: Array.from({ length: 12 }, () => buildAnnualCellLayout([90], false)),
+        doldrumsHalfWidthDeg: center.radiusDeg,
+        tradePeakOffsetDeg: 0,
+        oceanEcLatGapDerived: phys.oceanEcLatGap,
+        modelLevel: 'terminator',
+        debug: {
+            paramsUsed: {
+                rotationSign,
+                rotationPeriod,
+                convectiveRadius: center.radiusDeg,
+                terminatorFlowSpeed: TERMINATOR_FLOW_SPEED,
+                coriolisTurnScale: turnScale
+            }
+        }
+    };
+};
+
+/**
+ * Step 2 (geostrophic mode): replaces the belt winds with the balanced wind of the Step 2 pressure field.
+ * - Geostrophy: u = -(1/ρf) ∂p/∂y, v = (1/ρf) ∂p/∂x with f = 2Ω sin(lat), sign flipped for retrograde spin.
+ * - Friction: the surface wind is slowed and turned toward low pressure, more over land than over sea.
+ * - Equator: f vanishes, so the belt winds (trades and ITCZ convergence) take over below GEOSTROPHIC_BLEND_END_LAT.
+ * Expects cell.windU/windV/pressure filled by the belt model; overwrites the winds.
+ */
+const applyGeostrophicWind = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    rows: number,
+    cols: number,
+    rotationSign: number
+): { airDensity: number, coriolis45: number, maxSpeed: number } => {
+    const omega = 2 * Math.PI / (getEffectiveRotationPeriod(planet) * 3600);
+    const airDensity = Math.max(1e-3, atm.surfacePressure * 1e5 / (GAS_CONSTANT_DRY_AIR * REFERENCE_AIR_TEMP_K));
+
+    const { cellHeightKm, cellWidthKm } = buildCellGeometry(grid, planet, rows, cols);
+    const cellHeightM = cellHeightKm * 1000;
+    let maxSpeed = 0;
+
+    for (let r = 0; r < rows; r++) {
+        const lat = grid[r * cols].lat;
+        const latAbs = Math.abs(lat);
+        const f = 2 * omega * Math.sin(toRad(lat)) * rotationSign;
+        const cellWidthM = cellWidthKm[r] * 1000;
+        const rN = Math.max(0, r - 1);
+        const rS = Math.min(rows - 1, r + 1);
+        const dyM = (rS - rN) * cellHeightM;
+        const blend = Math.min(1, Math.max(0, (latAbs - GEOSTROPHIC_BLEND_START_LAT) / (GEOSTROPHIC_BLEND_END_LAT - GEOSTROPHIC_BLEND_START_LAT)));
+        if (blend <= 0 || Math.abs(f) < 1e-12) continue;
+
+        for (let c = 0; c < cols; c++) {
+            const cell = grid[r * cols + c];
+            const east = grid[r * cols + (c + 1) % cols];
+            const west = grid[r * cols + (c - 1 + cols) % cols];
+            const north = grid[rN * cols + c];
+            const south = grid[rS * cols + c];
+            const turn = toRad(cell.isLand ? FRICTION_TURN_LAND_DEG : FRICTION_TURN_OCEAN_DEG) * Math.sign(f);
+            const damping = cell.isLand ? FRICTION_SPEED_LAND : FRICTION_SPEED_OCEAN;
+
+            for (let m = 0; m < 12; m++) {
+                // hPa -> Pa
+                const dpdx = (east.pressure[m] - west.pressure[m]) * 100 / (2 * cellWidthM);
+                const dpdy = dyM > 0 ? (north.pressure[m] - south.pressure[m]) * 100 / dyM : 0;
+                let ug = -dpdy / (airDensity * f);
+                let vg = dpdx / (airDensity * f);
+                const speed = Math.sqrt(ug * ug + vg * vg);
+                if (speed > GEOSTROPHIC_MAX_SPEED) {
+                    ug *= GEOSTROPHIC_MAX_SPEED / speed;
+                    vg *= GEOSTROPHIC_MAX_SPEED / speed;
+                }
+
+                // Counter-clockwise by `turn` (toward low pressure: left of the geostrophic wind for f > 0)
+                const us = damping * (ug * Math.cos(turn) - vg * Math.sin(turn));
+                const vs = damping * (ug * Math.sin(turn) + vg * Math.cos(turn));
+
+                cell.windU[m] = blend * us + (1 - blend) * cell.windU[m];
+                cell.windV[m] = blend * vs + (1 - blend) * cell.windV[m];
+                maxSpeed = Math.max(maxSpeed, Math.sqrt(cell.windU[m] * cell.windU[m] + cell.windV[m] * cell.windV[m]));
+            }
+        }
+    }
+
+    return { airDensity, coriolis45: 2 * omega * Math.sin(toRad(45)), maxSpeed };
+};
+
+/**
+ * Step 2: Stationary Rossby waves in the westerlies (linear barotropic response to surface forcing).
+ * - Forcing: an effective height per column = land elevation + THERMAL_DOME_HEIGHT_M × continental season,
+ *   where cold winter land acts like a mountain (dense dome) and warm summer land like a basin.
+ *   The season is the row's zonal-mean insolation anomaly relative to its annual mean.
+ * - Each contiguous band of rows with a zonal-mean westerly U gets a half-sine envelope; its width sets the
+ *   meridional wavenumber l. Per zonal wavenumber k the streamfunction solves
+ *   U ∂ζ/∂x + β v = -r ζ - (f/H) U ∂h/∂x  →  ψ_k = -(f/H) U ik h_k / (ik(β - U K²) - r K²),  K² = k² + l².
+ *   The damping shifts the response downstream of the forcing and keeps the resonance at K² = β/U finite.
+ * - Output: v = ∂ψ/∂x, u = -∂ψ/∂y and p = ρ f ψ, scaled by SURFACE_AMPLITUDE_RATIO, added to the belt winds and
+ *   pressure (troughs and ridges).
+ * Retrograde spin is handled by solving on the mirrored row (downstream = west) and mirroring back.
+ */
+const applyStationaryWaves = (
+    grid: GridCell[],
+    planet: PlanetParams,
+    atm: AtmosphereParams,
+    gain: number,
+    rows: number,
+    cols: number,
+    rotationSign: number
+): { maxV: number, maxHpa: number } => {
+    if (gain <= 0 || cols < 4) return { maxV: 0, maxHpa: 0 };
+
+    const radiusM = planet.radius * 1000;
+    const omega = 2 * Math.PI / (getEffectiveRotationPeriod(planet) * 3600);
+    const airDensity = Math.max(1e-3, atm.surfacePressure * 1e5 / (GAS_CONSTANT_DRY_AIR * REFERENCE_AIR_TEMP_K));
+    const scaleHeightM = GAS_CONSTANT_DRY_AIR * REFERENCE_AIR_TEMP_K / Math.max(0.1, planet.gravity);
+    const damping = 1 / (STATIONARY_WAVE_DAMPING_DAYS * 86400);
+    const cellHeightM = Math.PI * radiusM / Math.max(1, rows - 1);
+    const maxK = Math.min(STATIONARY_WAVE_MAX_WAVENUMBER, Math.floor(cols / 2) - 1);
+    // Column of the j-th point downstream (eastward for prograde spin)
+    const colAt = (j: number) => rotationSign > 0 ? j : cols - 1 - j;
+
+    // Continental season per row and month: +1 deep winter ... -1 high summer
+    const winterness: number[][] = [];
+    for (let r = 0; r < rows; r++) {
+        const zonal = new Array(12).fill(0);
+        for (let c = 0; c < cols; c++) {
+            for (let m = 0; m < 12; m++) zonal[m] += grid[r * cols + c].insolation[m] / cols;
+        }
+        const annual = zonal.reduce((a, b) => a + b, 0) / 12;
+        winterness.push(zonal.map(z => annual > 0 ? clamp((annual - z) / annual, -1, 1) : 0));
+    }
+
+    let maxV = 0, maxHpa = 0;
+    const psi = new Float64Array(rows * cols);
+    const envelope = new Float64Array(rows);
+    const westerly = new Float64Array(rows);
+
+    for (let m = 0; m < 12; m++) {
+        psi.fill(0);
+        envelope.fill(0);
+
+        // Zonal-mean westerly (in the spin direction) per row
+        for (let r = 0; r < rows; r++) {
+            let sum = 0;
+            for (let c = 0; c < cols; c++) sum += grid[r * cols + c].windU[m];
+            westerly[r] = rotationSign * sum / cols;
+        }
+
+        // Westerly bands (contiguous rows, one hemisphere each)
+        let r0 = 0;
+        while (r0 < rows) {
+            if (westerly[r0] < STATIONARY_WAVE_MIN_U) { r0++; continue; }
+            const north = grid[r0 * cols].lat >= 0;
+            let r1 = r0;
+            while (r1 + 1 < rows && westerly[r1 + 1] >= STATIONARY_WAVE_MIN_U && (grid[(r1 + 1) * cols].lat >= 0) === north) r1++;
+            const n = r1 - r0 + 1;
+            if (n >= STATIONARY_WAVE_MIN_ROWS) {
+                const widthM = n * cellHeightM;
+                const l = Math.PI / widthM;
+                for (let r = r0; r <= r1; r++) {
+                    envelope[r] = Math.sin(Math.PI * (r - r0 + 0.5) / n);
+                    const lat = grid[r * cols].lat;
+                    const cosLat = Math.max(0.05, Math.cos(toRad(lat)));
+                    const f = 2 * omega * Math.sin(toRad(lat));
+                    const beta = 2 * omega * cosLat / radiusM;
+                    const u = westerly[r];
+
+                    // Effective forcing height along the downstream direction
+                    const h = new Float64Array(cols);
+                    for (let j = 0; j < cols; j++) {
+                        const cell = grid[r * cols + colAt(j)];
+                        if (cell.isLand) h[j] = Math.max(0, cell.elevation) + THERMAL_DOME_HEIGHT_M * winterness[r][m];
+                    }
+
+                    for (let k = 1; k <= maxK; k++) {
+                        // Fourier coefficient h_k = a + ib of exp(ikx)
+                        let a = 0, b = 0;
+                        for (let j = 0; j < cols; j++) {
+                            const phase = 2 * Math.PI * k * j / cols;
+                            a += h[j] * Math.cos(phase) * 2 / cols;
+                            b -= h[j] * Math.sin(phase) * 2 / cols;
+                        }
+                        const kx = k / (radiusM * cosLat);
+                        const K2 = kx * kx + l * l;
+                        // F = -(f/H) U i kx h_k;  D = -r K² + i kx (β - U K²)
+                        const fr = (f / scaleHeightM) * u * kx * b;
+                        const fi = -(f / scaleHeightM) * u * kx * a;
+                        const dr = -damping * K2;
+                        const di = kx * (beta - u * K2);
+                        const den = dr * dr + di * di;
+                        if (den <= 0) continue;
+                        const pr = (fr * dr + fi * di) / den;
+                        const pi = (fi * dr - fr * di) / den;
+                        for (let j = 0; j < cols; j++) {
+                            const phase = 2 * Math.PI * k * j / cols;
+                            psi[r * cols + j] += pr * Math.cos(phase) - pi * Math.sin(phase);
+                        }
+                    }
+                }
+            }
+            r0 = r1 + 1;
+        }
+
+        // Winds and pressure of the enveloped streamfunction at the surface
+        const scale = gain * SURFACE_AMPLITUDE_RATIO;
+        for (let r = 0; r < rows; r++) {
+            if (envelope[r] <= 0) continue;
+            const lat = grid[r * cols].lat;
+            const f = 2 * omega * Math.sin(toRad(lat));
+            const dxM = 2 * Math.PI * radiusM * Math.max(0.05, Math.cos(toRad(lat))) / cols;
+            const rN = Math.max(0, r - 1);
+            const rS = Math.min(rows - 1, r + 1);
+            const dyM = (rS - rN) * cellHeightM;
+            for (let j = 0; j < cols; j++) {
+                const here = envelope[r] * psi[r * cols + j];
+                const v = clamp(scale * envelope[r] * (psi[r * cols + (j + 1) % cols] - psi[r * cols + (j - 1 + cols) % cols]) / (2 * dxM),
+                    -STATIONARY_WAVE_MAX_V, STATIONARY_WAVE_MAX_V);
+                const u = dyM > 0
+                    ? clamp(-scale * (envelope[rN] * psi[rN * cols + j] - envelope[rS] * psi[rS * cols + j]) / dyM, -STATIONARY_WAVE_MAX_V, STATIONARY_WAVE_MAX_V)
+                    : 0;
+                const pHpa = clamp(scale * airDensity * f * here / 100, -STATIONARY_WAVE_MAX_HPA, STATIONARY_WAVE_MAX_HPA);
+
+                const cell = grid[r * cols + colAt(j)];
+                cell.windU[m] += rotationSign * u;
+                cell.windV[m] += v;
+                cell.pressure[m] += pHpa;
+                maxV = Math.max(maxV, Math.abs(v));
+                maxHpa = Math.max(maxHpa, Math.abs(pHpa));
+            }
+        }
+    }
+
+    return { maxV, maxHpa };
+};
 
 /**
  * Step 2: Wind Belts Analysis
@@ -9,20 +488,50 @@ import { GridCell, PlanetParams, AtmosphereParams, SimulationConfig, PhysicsPara
  * - Tropical wind model (Trade winds + Doldrums) relative to ITCZ.
  * - Pressure anomalies for circulation boundaries.
  * - Convergence (Wind V) towards ITCZ.
+ * Tidally locked planets (convectiveCenter set by Step 1) use the terminator flow model instead.
+ * phys.windModel = 'geostrophic' derives the winds from the pressure field instead (applyGeostrophicWind).
+ * Seasonal continental and cold-water pressure cells from the first-guess Step 5 temperature are added to the
+ * pressure of both models (applySeasonalPressureCells).
+ * Mountains and land–sea heating add stationary waves (troughs, ridges, windV) to the westerlies (applyStationaryWaves).
+ *
+ * High obliquity (Step 1 highObliquity): the ITCZ roams toward the summer pole, so the belts are laid out by
+ * distance from the monthly ITCZ instead of from the equator. Between the ITCZ and the equator the temperature
+ * falls equatorward, so the zonal winds there reverse (monsoon westerlies under a polar ITCZ).
+ * When the poles also receive more annual insolation than the tropics (polarInsolationRatio > 1), the annual layout
+ * (cellBoundariesDeg, cellLayout) puts the thermally direct cell at the pole: it keeps the Hadley width, the other
+ * cells follow equatorward, and the belt senses count from the pole (buildAnnualCellLayout).
+ *
+ * Seasonal boundaries: in the standard regime the belts of each month use seasonalBoundaries (shifted with the
+ * zonal-mean ITCZ); under high obliquity they sit at the monthly ITCZ ± the cell widths.
+ * monthlyCellBoundariesDeg reports them as signed latitudes (monthlyCellLayouts adds the belt senses for the monthly
+ * Step 3 runs); cellBoundariesDeg stays the annual layout.
+ * The standard regime always reports 2 × (cells - 1) boundaries per month; under high obliquity the ones that would
+ * lie beyond a pole are dropped, so the count changes from month to month.
+ * The final winds are also kept in cell.beltWindU/V, which Step 4 leaves untouched.
  */
 export const computeWindBelts = (
     grid: GridCell[],
-    circulationRes: { itczLines: number[][], cellCount: number, hadleyWidth: number },
+    circulationRes: {
+        itczLines: number[][], cellCount: number, hadleyWidth: number, convectiveCenter?: ConvectiveCenter,
+        highObliquity?: boolean, polarInsolationRatio?: number, scaling?: CirculationScaling
+    },
     planet: PlanetParams,
     atm: AtmosphereParams,
     phys: PhysicsParams,
     config: SimulationConfig
 ): WindBeltsResult => {
-    
-    const rotationSign = planet.isRetrograde ? -1 : 1;
     const rows = config.resolutionLat;
     const cols = config.resolutionLon;
 
+    if (circulationRes.convectiveCenter) {
+        const terminator = computeTerminatorFlow(grid, circulationRes.convectiveCenter, planet, phys);
+        const terminatorCells = applySeasonalPressureCells(grid, planet, atm, phys, rows, cols);
+        keepBeltWinds(grid);
+        return { ...terminator, ...terminatorCells };
+    }
+    
+    const rotationSign = planet.isRetrograde ? -1 : 1;
+
     // --- Unit D: Calculate Cell Boundaries ---
     const cellCount = circulationRes.cellCount;
     const baseHadleyWidth = circulationRes.hadleyWidth * phys.windHadleyWidthScale;
@@ -49,6 +558,9 @@ export const computeWindBelts = (
     }
     boundaries.push(90); // Cap at pole
 
+    const highObliquity = !!circulationRes.highObliquity;
+    const gradientReversed = (circulationRes.polarInsolationRatio ?? 0) > 1;
+
     const hadleyEdge = boundaries[0];
     const rawTradeOffset = phys.windTradePeakOffsetMode === 'abs'
         ? phys.windTradePeakOffsetDeg
@@ -65,19 +577,23 @@ export const computeWindBelts = (
 
     // --- Unit E/F: Determine Monthly Wind/Pressure ---
     // We update the grid for all 12 months
+    const monthlyCellBoundaries: number[][] = [];
+    const monthlyCellLayouts: CellLayout[] = [];
     for (let m = 0; m < 12; m++) {
         const itcz = circulationRes.itczLines[m];
+        const itczMean = itcz.reduce((a, b) => a + b, 0) / cols;
+        const seasonal = seasonalBoundaries(boundaries, itczMean);
+        const inner = boundaries.slice(0, -1).filter(b => b < 90);
+        monthlyCellBoundaries.push((highObliquity
+            ? inner.flatMap(b => [itczMean - b, itczMean + b]).filter(l => l > -90 && l < 90)
+            : [...seasonal.south.slice(0, inner.length).map(b => -b), ...seasonal.north.slice(0, inner.length)]
+        ).sort((a, b) => a - b));
+        monthlyCellLayouts.push(buildMonthlyCellLayout(monthlyCellBoundaries[m], itczMean, highObliquity));
 
         for (let r = 0; r < rows; r++) {
             const lat = grid[r * cols].lat;
-            const latAbs = Math.abs(lat);
             const isNorth = lat >= 0;
-
-            // 1. Identify Belt Index
-            let beltIdx = 0;
-            while (beltIdx < boundaries.length - 1 && latAbs > boundaries[beltIdx]) {
-                beltIdx++;
-            }
+            const beltBounds = highObliquity ? boundaries : (isNorth ? seasonal.north : seasonal.south);
 
             for (let c = 0; c < cols; c++) {
                 const idx = r * cols + c;
@@ -86,6 +602,15 @@ export const computeWindBelts = (
                 const distToItcz = lat - itczLat;
                 const absDistToItcz = Math.abs(distToItcz);
 
+                // 1. Identify Belt Index (measured from the ITCZ under high obliquity)
+                const latAbs = highObliquity ? absDistToItcz : Math.abs(lat);
+                let beltIdx = 0;
+                while (beltIdx < beltBounds.length - 1 && latAbs > beltBounds[beltIdx]) {
+                    beltIdx++;
+                }
+                // -1 between the ITCZ and the equator, where the meridional gradient is reversed
+                const sideSign = highObliquity && (distToItcz >= 0) !== isNorth ? -1 : 1;
+
                 let u = 0;
                 let v = 0;
                 let p = 1013;
@@ -101,23 +626,27 @@ export const computeWindBelts = (
                     // Alternate High and Low at boundaries
                     // i=0 (Hadley/Ferrel) -> High, i=1 (Ferrel/Polar) -> Low
                     const sign = (i % 2 === 0) ? 1 : -1;
-                    const bLat = isNorth ? b : -b;
+                    const bLat = highObliquity ? itczLat + (distToItcz >= 0 ? b : -b) : (isNorth ? seasonal.north[i] : -seasonal.south[i]);
                     const d = lat - bLat;
                     pBelts += sign * phys.windPressureAnomalyMax * 0.8 * Math.exp(-Math.pow(d / phys.windPressureBeltWidth, 2));
                 });
                 p = 1013 + pItcz + pBelts;
 
                 // --- Wind U Model (Unit D/E) ---
-                if (latAbs <= boundaries[0]) {
+                if (latAbs <= beltBounds[0]) {
                     // Tropical Zone (Hadley Cell)
                     // Unit E: Doldrums and Trade Peaks
                     const distFromDoldrums = Math.max(0, absDistToItcz - doldrumsHalfWidth);
                     const gaussianPeak = Math.exp(-0.5 * Math.pow((absDistToItcz - tradeOffset) / tradePeakWidth, 2));
                     const entryRamp = distFromDoldrums / (distFromDoldrums + tradePeakWidth);
-                    const edgeFade = Math.max(0, 1 - Math.pow(absDistToItcz / Math.max(0.1, hadleyEdge), 2));
+                    // Fade out toward the Hadley edge on this side of the ITCZ (the winter side reaches farther)
+                    const edgeDist = highObliquity
+                        ? hadleyEdge
+                        : Math.abs((distToItcz >= 0 ? seasonal.north[0] : -seasonal.south[0]) - itczLat);
+                    const edgeFade = Math.max(0, 1 - Math.pow(absDistToItcz / Math.max(0.1, edgeDist), 2));
                     const profile = gaussianPeak * entryRamp * edgeFade;
                     const tradeStrength = phys.windBaseSpeedEasterly * profile;
-                    u = -Math.min(tradeStrength, phys.windTropicalUCap) * rotationSign;
+                    u = -Math.min(tradeStrength, phys.windTropicalUCap) * rotationSign * sideSign;
 
                 } else {
                     // Extra-tropical Zones
@@ -127,8 +656,8 @@ export const computeWindBelts = (
                     const baseSpeed = (sign > 0) ? phys.windBaseSpeedWesterly : phys.windBaseSpeedEasterly;
                     
                     // Add rotation scaling (faster rotation = stronger jets)
-                    const rotFactor = Math.pow(24 / planet.rotationPeriod, phys.windSpeedRotationExp);
-                    u = sign * baseSpeed * rotFactor * rotationSign;
+                    const rotFactor = Math.pow(24 / getEffectiveRotationPeriod(planet), phys.windSpeedRotationExp);
+                    u = sign * baseSpeed * rotFactor * rotationSign * sideSign;
                 }
 
                 // --- Wind V Model (Unit F: Convergence) ---
@@ -145,19 +674,41 @@ export const computeWindBelts = (
         }
     }
 
+    // Continental and cold-water cells, then zonally asymmetric jets, both before the geostrophic mode so its
+    // balanced wind sees the cells, troughs and ridges
+    const pressureCells = applySeasonalPressureCells(grid, planet, atm, phys, rows, cols);
+    const stationaryWaves = applyStationaryWaves(grid, planet, atm, phys.windStationaryWaveGain, rows, cols, rotationSign);
+
+    const geostrophic = phys.windModel === 'geostrophic'
+        ? applyGeostrophicWind(grid, planet, atm, rows, cols, rotationSign)
+        : undefined;
+    keepBeltWinds(grid);
+
     // --- Step 2.1: Derived Values for Step 3 ---
     // Calculate recommended gap for Ocean pass
     const oceanGap = phys.windOceanEcGapMode === 'manual' 
         ? phys.oceanEcLatGap 
         : Math.min(phys.windOceanEcGapClampMax, Math.max(phys.windOceanEcGapClampMin, tradeOffset));
 
+    // Annual layout: with the poles as the warm end the direct cell (hadleyEdge wide) sits at the pole and the
+    // remaining cells follow equatorward in the same order
+    const annualBoundaries = gradientReversed
+        ? [...boundaries.slice(0, -1).map(b => 90 - b).reverse(), 90]
+        : boundaries;
+
     return {
         hadleyEdgeDeg: boundaries[0],
-        cellBoundariesDeg: boundaries,
+        cellBoundariesDeg: annualBoundaries,
+        gradientReversed,
+        cellLayout: buildAnnualCellLayout(annualBoundaries, gradientReversed),
+        monthlyCellBoundariesDeg: monthlyCellBoundaries,
+        monthlyCellLayouts,
         doldrumsHalfWidthDeg: doldrumsHalfWidth,
         tradePeakOffsetDeg: tradeOffset,
         oceanEcLatGapDerived: oceanGap,
-        modelLevel: 'trade',
+        modelLevel: geostrophic ? 'geostrophic' : 'trade',
+        maxHighHpa: pressureCells.maxHighHpa,
+        minLowHpa: pressureCells.minLowHpa,
         debug: {
             paramsUsed: {
                 rotationSign,
@@ -165,7 +716,34 @@ export const computeWindBelts = (
                 hadleyWidth: boundaries[0],
                 tradeOffset,
                 doldrumsHalfWidth,
-                tradePeakWidth
+                tradePeakWidth,
+                regime: highObliquity ? 'highObliquity' : 'standard',
+                polarInsolationRatio: circulationRes.polarInsolationRatio ?? 0,
+                gradientReversed: gradientReversed ? 1 : 0,
+                windModel: phys.windModel,
+                thermalPressurePerK: THERMAL_PRESSURE_PER_K,
+                continentalGain: CONTINENTAL_GAIN,
+                winterHighFactor: WINTER_HIGH_FACTOR,
+                subtropicalColdWaterGain: SUBTROPICAL_COLD_WATER_GAIN,
+                stationaryWaveGain: phys.windStationaryWaveGain,
+                stationaryWaveMaxV: stationaryWaves.maxV,
+                stationaryWaveMaxHpa: stationaryWaves.maxHpa,
+                circulationScaling: phys.circulationScaling,
+                ...(circulationRes.scaling ? {
+                    thermalRossby: circulationRes.scaling.thermalRossby,
+                    heldHouEdgeDeg: circulationRes.scaling.hadleyEdgeDeg,
+                    rhinesLengthKm: circulationRes.scaling.rhinesLengthKm,
+                    rhinesJetCount: circulationRes.scaling.jetCount,
+                    scaleHeightKm: circulationRes.scaling.scaleHeightKm,
+                    tropopauseHeightKm: circulationRes.scaling.tropopauseHeightKm,
+                    equatorPoleContrastK: circulationRes.scaling.equatorPoleContrastK,
+                    thermalWindSpeed: circulationRes.scaling.thermalWindSpeed
+                } : {}),
+                ...(geostrophic ? {
+                    airDensity: geostrophic.airDensity,
+                    coriolis45: geostrophic.coriolis45,
+                    maxSurfaceWind: geostrophic.maxSpeed
+                } : {})
             }
         }
     };
@@ -11,6 +11,21 @@ export interface PlanetParams {
   perihelionAngle: number; // degrees, Angle relative to Vernal Equinox
   isRetrograde: boolean; // Rotation direction
   orbitalPeriod: number; // hours (Year length)
+  tidalLock: 'auto' | 'locked' | 'free'; // auto: synchronous when rotationPeriod ≈ orbitalPeriod
+  stellarTemperature: number; // K, effective temperature of the primary star
+  companions: StellarComponent[]; // Additional stars (empty = single star)
+}
+
+// Additional star of a multiple system. The primary star is described by solarLuminosity / stellarTemperature.
+// P-type: the planet circles a close pair (separation well inside semiMajorAxis).
+// S-type: the planet circles the primary and the companion orbits far outside.
+export interface StellarComponent {
+  luminosity: number; // relative to Sun
+  temperature: number; // K, effective temperature
+  configuration: 'P' | 'S';
+  separation: number; // AU, companion - primary distance
+  period: number; // hours, orbital period of the companion around the primary
+  phase: number; // degrees, position angle of the companion on Jan 1
 }
 
 // 1-2. Atmosphere & Ocean
@@ -45,6 +60,9 @@ export interface PhysicsParams {
   itczKernelAngle: number; // degrees
   itczKernelMax: number; // degrees
 
+  // 1.0 Cell Count / Hadley Width
+  circulationScaling: 'empirical' | 'heldHou'; // radius·rotation heuristic, or Held–Hou edge + Rhines jet count
+
   // 2. Wind Belts Tuning (New)
   windHadleyWidthScale: number;
   windJetSpacingExp: number;
@@ -64,6 +82,8 @@ export interface PhysicsParams {
   windOceanEcGapMode: 'manual' | 'derivedFromTradePeak';
   windOceanEcGapClampMin: number;
   windOceanEcGapClampMax: number;
+  windModel: 'belt' | 'geostrophic'; // hand-tuned belt profile, or balanced wind of the pressure field
+  windStationaryWaveGain: number; // stationary Rossby waves in the westerlies (0 = zonally uniform belts)
 
   // 3.1 Ocean Currents
   oceanShelfAngle: number; // degrees. Angle of incidence to trigger split.
@@ -119,14 +139,28 @@ export interface GridCell {
   tempZonal: number[]; 
   windU: number[]; 
   windV: number[]; 
+  beltWindU: number[]; // Step 2: winds as the belt model left them, before the Step 4 refinement (m/s)
+  beltWindV: number[];
   pressure: number[]; 
-  uplift: number[]; 
+  thermalPressure: number[]; // Step 2: seasonal continental / cold-water pressure cell (hPa), included in pressure
+  uplift: number[]; // Step 4: local orographic vertical velocity of the refined winds (m/s), + = windward ascent, - = lee descent
+  orographicUplift: number[]; // Step 4.2: windward uplift over the smoothed terrain (m/s), drives Step 6 rain-out
+  rainShadow: number[]; // Step 4.2: 0 = open exposure, 1 = fully shadowed by upwind terrain
   hadleyCell: number[]; 
-  oceanCurrent: number; 
+  oceanCurrent: number[]; // Step 3.2: signed current anomaly per month, + = warm (leaving ITCZ), - = cold (approaching)
+  oceanCurrentU: number[]; // Step 3.2: streamline velocity per month, east (grid cells per agent step; ocean only)
+  oceanCurrentV: number[]; // Step 3.2: ...north
+  upwelling: number[]; // Step 3.3: 0..1 wind-driven upwelling per month (ocean only), coastal or equatorial cold tongue
+  coastalCurrent: number[]; // Step 3.4: mean oceanCurrent of the nearby sea per month (land only)
+  coastalUpwelling: number[]; // Step 3.4: mean upwelling of the nearby sea per month (land only)
   temp: number[]; 
+  iceCover: number; // Step 5.3: 1 = perennial snow / sea ice (albedoIce), 0 = ice-free
+  seaIceThickness: number[]; // Step 5.4: sea-ice thickness (m) at the end of each month, ocean only
+  seaIceConcentration: number[]; // Step 5.4: 0..1 ice-covered fraction of the cell per month, ocean only
   moisture: number[]; 
   precip: number[]; 
   climateClass: string; 
+  climateClasses: Partial<Record<ClimateScheme, string>>; // Step 7: class per scheme (koppen mirrors climateClass)
 }
 
 export interface CustomMapData {
@@ -156,7 +190,10 @@ export interface StreamlinePoint {
 
 export interface OceanStreamline {
   points: StreamlinePoint[];
-  type: 'main' | 'split_n' | 'split_s';
+  // main = ECC (Pass 1), split_* = EC (Pass 2),
+  // gyre_* = Pass 3: western boundary current, westerly drift, eastern boundary return
+  // circumpolar = Pass 4: zonal flow around an open latitude band
+  type: 'main' | 'split_n' | 'split_s' | 'gyre_wbc' | 'gyre_drift' | 'gyre_return' | 'circumpolar';
   strength: number; // 0.0 - 1.0 (For thickness/opacity)
 }
 
@@ -165,11 +202,11 @@ export interface OceanImpact {
   y: number;
   lat: number;
   lon: number;
-  type: 'ECC' | 'EC'; // ECC = Pass 1 (Warm/Eastward), EC = Pass 2 (Cold/Westward)
+  type: 'ECC' | 'EC' | 'ACC'; // ECC = Pass 1 (Warm/Eastward), EC = Pass 2 (Cold/Westward), ACC = Pass 4 (Circumpolar)
 }
 
 export interface OceanDiagnosticLog {
-    type: 'EC_INFANT_DEATH' | 'ECC_STUCK';
+    type: 'EC_INFANT_DEATH' | 'ECC_STUCK' | 'CIRCUMPOLAR_BAND' | 'CIRCUMPOLAR_BREACH';
     x: number;
     y: number;
     lat: number;
@@ -178,14 +215,137 @@ export interface OceanDiagnosticLog {
     message: string;
 }
 
+// --- Insolation Result ---
+export interface InsolationResult {
+    solarConstant: number; // W/m^2 of the primary star at semiMajorAxis
+    subsolarLatDeg: number[]; // [Month] Mean declination of the star
+    distanceAU: number[]; // [Month] Mean star-planet distance
+    globalMeanFlux: number[]; // [Month] Area-weighted mean TOA insolation (W/m^2)
+    solarDayHours: number | null; // Length of the solar day; null when rotation is synchronous (the star never moves)
+    tidallyLocked: boolean; // Substellar-point insolation instead of the diurnal mean
+    peakFlux: number[]; // [Month] Highest total stellar flux at normal incidence (W/m^2)
+    minFlux: number[]; // [Month] Lowest total stellar flux at normal incidence (W/m^2)
+    stellarTempK: number[]; // [Month] Flux-weighted effective temperature of the combined starlight
+}
+
+// --- Tidal Locking ---
+// Day-side convective centre of a synchronously rotating planet (replaces the zonal ITCZ)
+export interface ConvectiveCenter {
+    latDeg: number[]; // [Month] latitude of the substellar point
+    lonDeg: number; // fixed substellar longitude
+    radiusDeg: number; // angular radius of the deep-convection region
+}
+
+export interface TidalLockResult {
+    locked: boolean;
+    forced: boolean; // true when set by the tidalLock flag rather than detected
+    substellarLonDeg: number;
+    convectiveCenter?: ConvectiveCenter;
+    dayMeanTemp: number; // K, area-weighted mean of the star-facing hemisphere
+    nightMeanTemp: number; // K, area-weighted mean of the far hemisphere
+    terminatorMeanTemp: number; // K, cells within TERMINATOR_BAND_DEG of the terminator
+}
+
+// --- Thermodynamics Result ---
+export interface ThermoResult {
+    lapseRate: number; // K/km applied to land elevation
+    surfacePressure: number; // bar
+    spinupYears: number; // EBM years until the annual cycle converged
+    seaLevelGlobalTemp: number; // K, global mean before the elevation correction
+    maxElevationCooling: number; // K, largest lapse-rate correction on the grid
+}
+
+// --- Ice-Albedo Result ---
+export type ClimateRegime = 'temperate' | 'partially_glaciated' | 'snowball' | 'hothouse';
+
+export interface IceAlbedoResult {
+    iceFraction: number; // Area-weighted ice-covered fraction of the whole surface
+    landIceFraction: number; // Fraction of land area under perennial snow
+    seaIceFraction: number; // Fraction of ocean area under perennial sea ice
+    regime: ClimateRegime;
+    iterations: number;
+    converged: boolean;
+}
+
+// --- Sea Ice Result ---
+export interface SeaIceResult {
+    extentKm2: number[]; // [Month] area of cells with concentration >= 15%
+    northExtentKm2: number[]; // [Month]
+    southExtentKm2: number[]; // [Month]
+    marchExtentKm2: number;
+    septemberExtentKm2: number;
+    perennialFraction: number; // Fraction of ocean area covered (>= 50%) all year
+    maxThicknessM: number;
+}
+
+// --- Hydrology Result ---
+export interface HydroResult {
+    globalPrecip: number; // mm/year, area-weighted mean
+    globalEvap: number; // mm/year, area-weighted mean
+    maxAnnualPrecip: number; // mm/year, wettest cell
+}
+
+// --- Airflow Result ---
+export interface AirflowResult {
+    maxUplift: number; // m/s, largest orographic vertical velocity (either sign)
+    maxMonsoonSpeed: number; // m/s, largest thermally driven wind added to the belts (0 in geostrophic mode)
+    debug: {
+        paramsUsed: Record<string, number | string>;
+    };
+}
+
+// --- Upwelling Result ---
+export interface UpwellingResult {
+    coastalOceanFraction: number; // Ocean area with annual mean coastal upwelling above 0.2
+    coldTongueOceanFraction: number; // Ocean area with annual mean equatorial upwelling above 0.2
+    maxUpwelling: number;
+}
+
+// --- Orographic Precipitation Result ---
+export interface OrographyResult {
+    windwardLandFraction: number; // Land area with annual mean orographicUplift above the display threshold
+    shadowedLandFraction: number; // Land area with annual mean rain shadow above 0.5
+    maxRainShadow: number;
+}
+
+// --- Classification Result ---
+export type ClimateScheme = 'koppen' | 'trewartha' | 'holdridge' | 'whittaker';
+
+// Scheme -> (Class code -> fraction of land area)
+export type ClassificationSummary = Record<ClimateScheme, Record<string, number>>;
+
+// --- Circulation Scaling (Step 1.0, Held–Hou / Rhines) ---
+export interface CirculationScaling {
+    thermalRossby: number; // Ro_T = g·H·(ΔT/T0) / (Ω·a)^2
+    hadleyEdgeDeg: number; // Held–Hou edge, sqrt(5/3 · Ro_T)
+    rhinesLengthKm: number; // π·sqrt(2U/β) at 45°
+    jetCount: number; // eddy-driven jets per hemisphere
+    scaleHeightKm: number;
+    tropopauseHeightKm: number;
+    equatorPoleContrastK: number; // radiative-equilibrium ΔT
+    thermalWindSpeed: number; // m/s, U = Ro_T·Ω·a
+}
+
+// --- Circulation Cell Layout (Step 2 -> Step 3) ---
+export interface CellLayout {
+    boundariesDeg: number[]; // signed latitudes, south to north (poles excluded)
+    westerly: boolean[]; // surface westerlies (rotation sense) in each belt between them, south pole first (length + 1)
+}
+
 // --- Wind Belts Result ---
 export interface WindBeltsResult {
     hadleyEdgeDeg: number;
-    cellBoundariesDeg: number[];
+    cellBoundariesDeg: number[]; // annual layout, |lat| per hemisphere (pole included)
+    gradientReversed: boolean; // annual insolation peaks at the poles: the poleward cell of cellBoundariesDeg is the thermally direct one
+    cellLayout: CellLayout; // annual layout with the belt wind senses (what Step 3 reads)
+    monthlyCellBoundariesDeg: number[][]; // [month] signed latitudes of the boundaries, south to north (poles excluded); length varies by month under high obliquity
+    monthlyCellLayouts: CellLayout[]; // [month] the same boundaries with the belt wind senses (Step 3 runs each month on its own)
     doldrumsHalfWidthDeg: number;
     tradePeakOffsetDeg: number;
     oceanEcLatGapDerived: number;
-    modelLevel: 'scaffold' | 'belts' | 'pressure' | 'trade';
+    modelLevel: 'scaffold' | 'belts' | 'pressure' | 'trade' | 'geostrophic' | 'terminator';
+    maxHighHpa: number; // hPa, strongest seasonal high added to the belt pressure (continental or oceanic)
+    minLowHpa: number; // hPa, deepest seasonal thermal low (negative)
     debug: {
         clampInfo?: string[];
         paramsUsed: Record<string, number | string>;
@@ -195,7 +355,7 @@ export interface WindBeltsResult {
 // --- DEBUGGING TYPES ---
 export interface DebugAgentSnapshot {
     id: number;
-    type: 'ECC' | 'EC_N' | 'EC_S';
+    type: 'ECC' | 'EC_N' | 'EC_S' | 'GYRE_N' | 'GYRE_S' | 'ACC';
     x: number;
     y: number;
     vx: number;
@@ -232,8 +392,18 @@ export interface SimulationResult {
   cellCount: number; // Number of circulation cells per hemisphere
   itczLats: number[]; 
   itczLines: number[][]; // [Month][LonIndex] -> Lat
+  insolation?: InsolationResult; // Step 0.5 Output
+  tidalLock?: TidalLockResult; // Synchronous rotation summary (Steps 0.5, 1, 2, 5); only for locked planets
   wind?: WindBeltsResult; // Step 2 Output
-  oceanStreamlines: OceanStreamline[][]; // [Month (0=Jan, 6=Jul)][LineIndex]
+  airflow?: AirflowResult; // Step 4 Output
+  upwelling?: UpwellingResult; // Step 3.3 Output
+  orography?: OrographyResult; // Step 4.2 Output
+  thermo?: ThermoResult; // Step 5 Output
+  ice?: IceAlbedoResult; // Step 5.3 Output
+  seaIce?: SeaIceResult; // Step 5.4 Output
+  hydro?: HydroResult; // Step 6 Output
+  classification?: ClassificationSummary; // Step 7 Output
+  oceanStreamlines: OceanStreamline[][]; // [Month (0-11)][LineIndex]
   impactPoints: OceanImpact[][]; // [Month][ImpactIndex]
   diagnostics: OceanDiagnosticLog[]; // Debug logs from physics engine
   implementationStatus: SimulationImplementationStatus;
@@ -1,5 +1,9 @@
 
-import { SimulationResult } from '../types';
+import { SimulationResult, GridCell, CustomMapData } from '../types';
+import { initializeGrid } from '../services/geography';
+import { runSimulation } from '../services/climateEngine';
+import { EARTH_PARAMS, EARTH_ATMOSPHERE, DEFAULT_PHYSICS_PARAMS, DEFAULT_CONFIG } from '../constants';
+import { SEA_ICE_MAX_THICKNESS_M } from '../services/physics/seaIce';
 
 export interface TestResult {
     name: string;
@@ -8,9 +12,184 @@ export interface TestResult {
     details?: any;
 }
 
+// --- Mirrored-World Regression ---
+// A retrograde planet with east-west mirrored terrain must reproduce the prograde climate as a mirror image.
+const MIRROR_TEST_ROWS = 45; // coarse grid keeps the two runs interactive
+const MIRROR_TEST_COLS = 90;
+const MIRROR_WIND_TOLERANCE = 0.5; // m/s, mean |u + u'| and |v - v'|
+const MIRROR_TEMP_TOLERANCE = 0.5; // K, mean |T - T'|
+const MIRROR_CURRENT_MIN_CORRELATION = 0.8; // the agent passes are order dependent, so only the pattern must match
+
+// Column holding the mirror image (lon -> -lon) of column c
+const mirrorCol = (c: number, cols: number) => (cols - c) % cols;
+
+// --- Earth Reference ---
+// Total sea-ice extent bounds (km²) for the default Earth in March and September. Observed totals are
+// ~18 / ~23 M km²; the band leaves room for the coarse grid and the zonal EBM.
+const EARTH_SEA_ICE_MIN_KM2 = 12e6;
+const EARTH_SEA_ICE_MAX_KM2 = 30e6;
+// Per-hemisphere [min, max] (km²). Observed: north ~15 / ~5, south ~3 / ~18 M km² (March / September);
+// the Antarctic minimum must not melt out completely.
+const EARTH_NORTH_ICE_MARCH_KM2: [number, number] = [10e6, 25e6];
+const EARTH_NORTH_ICE_SEPTEMBER_KM2: [number, number] = [2e6, 15e6];
+const EARTH_SOUTH_ICE_MARCH_KM2: [number, number] = [0.1e6, 8e6];
+const EARTH_SOUTH_ICE_SEPTEMBER_KM2: [number, number] = [8e6, 25e6];
+
+const annualMean = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
+
+// The prograde run of the mirror test doubles as the Earth reference
+const runEarthReference = (): Promise<SimulationResult> => {
+    const config = { ...DEFAULT_CONFIG, resolutionLat: MIRROR_TEST_ROWS, resolutionLon: MIRROR_TEST_COLS };
+    const grid = initializeGrid(config.resolutionLat, config.resolutionLon, config.startingMap, undefined, config.seed);
+    return runSimulation(grid, EARTH_PARAMS, EARTH_ATMOSPHERE, DEFAULT_PHYSICS_PARAMS, config, () => {});
+};
+
+const runMirroredWorldCheck = async (prograde: SimulationResult): Promise<TestResult[]> => {
+    const rows = MIRROR_TEST_ROWS;
+    const cols = MIRROR_TEST_COLS;
+    const config = { ...DEFAULT_CONFIG, resolutionLat: rows, resolutionLon: cols };
+    const noProgress = () => {};
+
+    const mirroredMap: CustomMapData = { width: cols, height: rows, elevation: [], isLand: [] };
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const src = prograde.grid[r * cols + mirrorCol(c, cols)];
+            mirroredMap.elevation.push(src.elevation);
+            mirroredMap.isLand.push(src.isLand);
+        }
+    }
+    const mirroredGrid = initializeGrid(rows, cols, 'CUSTOM', mirroredMap);
+
+    const retrograde = await runSimulation(mirroredGrid, { ...EARTH_PARAMS, isRetrograde: true }, EARTH_ATMOSPHERE, DEFAULT_PHYSICS_PARAMS, config, noProgress);
+
+    let windErr = 0, tempErr = 0, n = 0;
+    const currentA: number[] = [];
+    const currentB: number[] = [];
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const a: GridCell = prograde.grid[r * cols + c];
+            const b: GridCell = retrograde.grid[r * cols + mirrorCol(c, cols)];
+            for (let m = 0; m < 12; m++) {
+                windErr += (Math.abs(a.windU[m] + b.windU[m]) + Math.abs(a.windV[m] - b.windV[m])) / 24;
+            }
+            tempErr += Math.abs(annualMean(a.temp) - annualMean(b.temp));
+            n++;
+            if (!a.isLand) {
+                currentA.push(annualMean(a.oceanCurrent));
+                currentB.push(annualMean(b.oceanCurrent));
+            }
+        }
+    }
+    windErr /= n;
+    tempErr /= n;
+
+    const meanA = annualMean(currentA);
+    const meanB = annualMean(currentB);
+    let cov = 0, varA = 0, varB = 0;
+    for (let i = 0; i < currentA.length; i++) {
+        cov += (currentA[i] - meanA) * (currentB[i] - meanB);
+        varA += (currentA[i] - meanA) ** 2;
+        varB += (currentB[i] - meanB) ** 2;
+    }
+    const correlation = varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+
+    // ECC ('main') lines must run east on the prograde planet and west on the retrograde one
+    const eccDirection = (res: SimulationResult) => {
+        let sum = 0;
+        for (const lines of res.oceanStreamlines) {
+            for (const line of lines) if (line.type === 'main') for (const p of line.points) sum += p.vx;
+        }
+        return Math.sign(sum);
+    };
+    const eccPro = eccDirection(prograde);
+    const eccRetro = eccDirection(retrograde);
+
+    return [
+        {
+            name: "Mirror: Wind Field",
+            passed: windErr < MIRROR_WIND_TOLERANCE,
+            message: `Mean mismatch ${windErr.toFixed(3)} m/s between the prograde planet and its retrograde mirror image.`,
+            details: `${rows}x${cols} grid, tolerance ${MIRROR_WIND_TOLERANCE} m/s`
+        },
+        {
+            name: "Mirror: Temperature",
+            passed: tempErr < MIRROR_TEMP_TOLERANCE,
+            message: `Mean annual temperature mismatch ${tempErr.toFixed(3)} K.`,
+            details: `Global ${(prograde.globalTemp - 273.15).toFixed(2)}°C vs ${(retrograde.globalTemp - 273.15).toFixed(2)}°C`
+        },
+        {
+            name: "Mirror: Ocean Currents",
+            passed: correlation >= MIRROR_CURRENT_MIN_CORRELATION && eccPro > 0 && eccRetro < 0,
+            message: `Current anomaly correlation ${correlation.toFixed(3)}, ECC ${eccPro > 0 ? 'eastward' : 'westward'} / ${eccRetro < 0 ? 'westward' : 'eastward'}.`,
+            details: `Required correlation >= ${MIRROR_CURRENT_MIN_CORRELATION}; ECC must flow east (prograde) and west (retrograde)`
+        }
+    ];
+};
+
+// --- Reversed Annual Gradient ---
+// Above ~54° obliquity the poles get more annual insolation than the tropics and the annual cell layout flips.
+const HIGH_OBLIQUITY_TEST_DEG = 80;
+
+const runReversedGradientCheck = async (earth: SimulationResult): Promise<TestResult[]> => {
+    const config = { ...DEFAULT_CONFIG, resolutionLat: MIRROR_TEST_ROWS, resolutionLon: MIRROR_TEST_COLS };
+    const grid = initializeGrid(config.resolutionLat, config.resolutionLon, config.startingMap, undefined, config.seed);
+    const tilted = await runSimulation(grid, { ...EARTH_PARAMS, obliquity: HIGH_OBLIQUITY_TEST_DEG }, EARTH_ATMOSPHERE, DEFAULT_PHYSICS_PARAMS, config, () => {});
+    const a = earth.wind;
+    const b = tilted.wind;
+    if (!a || !b) return [{ name: "Wind: Reversed Annual Gradient", passed: false, message: "No Step 2 result." }];
+
+    const bounds = b.cellBoundariesDeg;
+    const increasing = bounds.every((v, i) => i === 0 || v > bounds[i - 1]) && bounds[bounds.length - 1] === 90;
+    // The direct cell keeps the Hadley width but touches the pole
+    const polarCellWidth = 90 - (bounds.length > 1 ? bounds[bounds.length - 2] : 0);
+    const polarDirect = Math.abs(polarCellWidth - b.hadleyEdgeDeg) < 1e-6;
+    const polarWesterly = b.cellLayout.westerly[0] && b.cellLayout.westerly[b.cellLayout.westerly.length - 1];
+    const earthStandard = !a.gradientReversed && !a.cellLayout.westerly[0];
+
+    return [{
+        name: "Wind: Reversed Annual Gradient",
+        passed: b.gradientReversed && increasing && polarDirect && polarWesterly && earthStandard,
+        message: `Obliquity ${HIGH_OBLIQUITY_TEST_DEG}°: boundaries ${bounds.map(v => v.toFixed(1)).join(', ')}, polar cell ${polarCellWidth.toFixed(1)}° wide (Hadley ${b.hadleyEdgeDeg.toFixed(1)}°), polar belts ${polarWesterly ? 'westerly' : 'easterly'}.`,
+        details: `Polar/tropical insolation ${Number(b.debug.paramsUsed.polarInsolationRatio).toFixed(2)}; Earth ${a.gradientReversed ? 'reversed' : 'standard'} with ${a.cellLayout.westerly[0] ? 'westerly' : 'easterly'} polar belts`
+    }];
+};
+
+/**
+ * Sea-ice sanity check: finite extents and concentrations in 0..1.
+ * With `earthRange` the March and September totals must also fall inside the Earth bounds.
+ */
+const checkSeaIceExtent = (data: SimulationResult, earthRange: boolean): TestResult | undefined => {
+    const s = data.seaIce;
+    if (!s) return undefined;
+    const toMkm2 = (v: number) => (v / 1e6).toFixed(1);
+    const valid = s.extentKm2.every(v => Number.isFinite(v) && v >= 0)
+        && data.grid.every(c => c.seaIceConcentration.every(v => v >= 0 && v <= 1));
+    const inRange = (v: number) => v >= EARTH_SEA_ICE_MIN_KM2 && v <= EARTH_SEA_ICE_MAX_KM2;
+    const within = (v: number, [min, max]: [number, number]) => v >= min && v <= max;
+    const plausible = !earthRange || (inRange(s.marchExtentKm2) && inRange(s.septemberExtentKm2)
+        && within(s.northExtentKm2[2], EARTH_NORTH_ICE_MARCH_KM2) && within(s.northExtentKm2[8], EARTH_NORTH_ICE_SEPTEMBER_KM2)
+        && within(s.southExtentKm2[2], EARTH_SOUTH_ICE_MARCH_KM2) && within(s.southExtentKm2[8], EARTH_SOUTH_ICE_SEPTEMBER_KM2)
+        && s.maxThicknessM < SEA_ICE_MAX_THICKNESS_M);
+    const range = ([min, max]: [number, number]) => `${toMkm2(min)}–${toMkm2(max)}`;
+    return {
+        name: earthRange ? "Thermo: Sea Ice Extent (Earth)" : "Thermo: Sea Ice Extent",
+        passed: valid && plausible,
+        message: `March ${toMkm2(s.marchExtentKm2)} M km², September ${toMkm2(s.septemberExtentKm2)} M km², max thickness ${s.maxThicknessM.toFixed(1)} m.`,
+        details: (earthRange ? `Required ${toMkm2(EARTH_SEA_ICE_MIN_KM2)}–${toMkm2(EARTH_SEA_ICE_MAX_KM2)} M km² in March and September; `
+            + `north ${range(EARTH_NORTH_ICE_MARCH_KM2)} / ${range(EARTH_NORTH_ICE_SEPTEMBER_KM2)}, south ${range(EARTH_SOUTH_ICE_MARCH_KM2)} / ${range(EARTH_SOUTH_ICE_SEPTEMBER_KM2)} M km² (Mar / Sep); `
+            + `thickness below the ${SEA_ICE_MAX_THICKNESS_M} m cap. ` : '')
+            + `North Mar/Sep: ${toMkm2(s.northExtentKm2[2])} / ${toMkm2(s.northExtentKm2[8])}, South Mar/Sep: ${toMkm2(s.southExtentKm2[2])} / ${toMkm2(s.southExtentKm2[8])}, perennial ${(s.perennialFraction * 100).toFixed(1)}% of ocean`
+    };
+};
+
 export const runTestSuite = async (): Promise<TestResult[]> => {
+    const earth = await runEarthReference();
+    const seaIce = checkSeaIceExtent(earth, true);
     return [
-        { name: "Unit Test", passed: true, message: "System operational." }
+        { name: "Unit Test", passed: true, message: "System operational." },
+        ...(seaIce ? [seaIce] : []),
+        ...await runMirroredWorldCheck(earth),
+        ...await runReversedGradientCheck(earth)
     ];
 };
 
@@ -51,6 +230,17 @@ export const analyzeSimulation = (data: SimulationResult): TestResult[] => {
                  details: sample
              });
         }
+
+        const bands = data.diagnostics.filter(d => d.type === 'CIRCUMPOLAR_BAND');
+        const breaches = data.diagnostics.filter(d => d.type === 'CIRCUMPOLAR_BREACH');
+        if (bands.length > 0 || breaches.length > 0) {
+             results.push({
+                 name: "Ocean: Circumpolar Bands",
+                 passed: !breaches.some(d => d.age > 0), // age 0 = barrier found at detection, otherwise a flow was blocked in an open band
+                 message: `${bands.length} open band(s), ${breaches.length} barrier/blocked report(s).`,
+                 details: [...bands, ...breaches].slice(0, 5).map(d => `[Lat:${d.lat.toFixed(1)}] ${d.message}`).join("\n")
+             });
+        }
     }
     
     // Impact Count
@@ -65,5 +255,95 @@ export const analyzeSimulation = (data: SimulationResult): TestResult[] => {
         message: `Registered ${totalImpacts} total impacts across monitored months.`
     });
 
+    // Step 2 Seasonal Pressure Cells (continents need both a winter high and a summer low)
+    if (data.wind) {
+        const finite = data.grid.every(c => c.thermalPressure.every(Number.isFinite) && c.pressure.every(Number.isFinite));
+        const hasLand = data.grid.some(c => c.isLand);
+        const seasonal = !hasLand || (data.wind.maxHighHpa > 0 && data.wind.minLowHpa < 0);
+        results.push({
+            name: "Wind: Seasonal Pressure Cells",
+            passed: finite && seasonal,
+            message: `Strongest high +${data.wind.maxHighHpa.toFixed(1)} hPa, deepest low ${data.wind.minLowHpa.toFixed(1)} hPa.`,
+            details: !finite ? "Non-finite pressure values found." : (seasonal ? undefined : "Land present but no seasonal high/low pair.")
+        });
+    }
+
+    // Step 4 Airflow
+    if (data.airflow) {
+        const finite = data.grid.every(c => c.uplift.every(Number.isFinite) && c.orographicUplift.every(Number.isFinite) && c.windU.every(Number.isFinite) && c.windV.every(Number.isFinite));
+        results.push({
+            name: "Airflow: Orographic Uplift",
+            passed: finite,
+            message: `Max uplift ${(data.airflow.maxUplift * 100).toFixed(1)} cm/s, max monsoon wind ${data.airflow.maxMonsoonSpeed.toFixed(1)} m/s.`,
+            details: finite ? undefined : "Non-finite wind or uplift values found."
+        });
+    }
+
+    // Ice-Albedo Feedback
+    if (data.ice) {
+        results.push({
+            name: "Thermo: Ice-Albedo Convergence",
+            passed: data.ice.converged,
+            message: `Regime: ${data.ice.regime}, ice fraction ${(data.ice.iceFraction * 100).toFixed(1)}% after ${data.ice.iterations} iterations.`,
+            details: `Land snow: ${(data.ice.landIceFraction * 100).toFixed(1)}%, Perennial sea ice: ${(data.ice.seaIceFraction * 100).toFixed(1)}%`
+        });
+    }
+
+    // Sea Ice Cycle (the Earth bounds are checked on the reference run of runTestSuite)
+    const seaIce = checkSeaIceExtent(data, false);
+    if (seaIce) results.push(seaIce);
+
+    // Water Budget
+    if (data.hydro) {
+        const h = data.hydro;
+        const nonFinite = data.grid.reduce((n, c) => n + c.precip.filter(v => !Number.isFinite(v)).length + c.moisture.filter(v => !Number.isFinite(v)).length, 0);
+        results.push({
+            name: "Hydro: Water Budget",
+            passed: nonFinite === 0 && Number.isFinite(h.globalPrecip) && Number.isFinite(h.globalEvap),
+            message: `Global precipitation ${h.globalPrecip.toFixed(0)} mm/yr, evaporation ${h.globalEvap.toFixed(0)} mm/yr.`,
+            details: nonFinite > 0 ? `${nonFinite} non-finite monthly precipitation / moisture values.` : `Wettest cell ${h.maxAnnualPrecip.toFixed(0)} mm/yr`
+        });
+    }
+
+    // Stellar Flux Range (multiple stars modulate it within the month)
+    if (data.insolation) {
+        const ins = data.insolation;
+        const peak = Math.max(...ins.peakFlux);
+        const min = Math.min(...ins.minFlux);
+        const widest = ins.peakFlux.reduce((best, p, m) => (p - ins.minFlux[m] > ins.peakFlux[best] - ins.minFlux[best] ? m : best), 0);
+        results.push({
+            name: "Orbit: Stellar Flux",
+            passed: ins.peakFlux.every((p, m) => Number.isFinite(p) && p >= ins.minFlux[m] && ins.minFlux[m] >= 0),
+            message: `Flux ${min.toFixed(0)} - ${peak.toFixed(0)} W/m² over the year, widest monthly range in month ${widest + 1}.`,
+            details: `Month ${widest + 1}: ${ins.minFlux[widest].toFixed(0)} - ${ins.peakFlux[widest].toFixed(0)} W/m², combined starlight ${ins.stellarTempK[widest].toFixed(0)} K`
+        });
+    }
+
+    // Tidally Locked Day/Night Contrast
+    if (data.tidalLock?.locked) {
+        const t = data.tidalLock;
+        const toC = (k: number) => (k - 273.15).toFixed(1);
+        results.push({
+            name: "Thermo: Tidal Lock Day/Night",
+            passed: t.dayMeanTemp > t.nightMeanTemp,
+            message: `Day side ${toC(t.dayMeanTemp)}°C, night side ${toC(t.nightMeanTemp)}°C, terminator ${toC(t.terminatorMeanTemp)}°C.`,
+            details: `Substellar longitude ${t.substellarLonDeg}°, ${t.forced ? 'forced' : 'detected'} lock, convective radius ${t.convectiveCenter?.radiusDeg ?? '-'}°`
+        });
+    }
+
+    // Climate Classification Summary
+    if (data.classification) {
+        const top = Object.entries(data.classification.koppen)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 5)
+            .map(([code, frac]) => `${code}: ${(frac * 100).toFixed(1)}%`);
+        results.push({
+            name: "Climate: Köppen Summary",
+            passed: top.length > 0,
+            message: `${Object.keys(data.classification.koppen).length} classes present on land.`,
+            details: top.join(", ")
+        });
+    }
+
     return results;
 };